@@ -0,0 +1,73 @@
+import { env as ENV } from '../env'
+import type { PublishApproval } from '../releases/publish-requests'
+
+declare module 'hono' {
+	interface ContextVariableMap {
+		/**
+		 * Name of the token the request was authorized with
+		 */
+		identity: string
+		/**
+		 * Id of the scheduled action the request is performed by
+		 */
+		scheduledActionId: string | undefined
+		/**
+		 * Approval of the publish request the request is performed by
+		 */
+		publishApproval: PublishApproval | undefined
+	}
+}
+
+/**
+ * Identity of the requests when auth is not required and no token is provided
+ */
+export const ANONYMOUS_IDENTITY = 'anonymous'
+
+/**
+ * Identity of the actions performed by the server itself (e.g. removal of expired pending deploys)
+ */
+export const SYSTEM_IDENTITY = 'system'
+
+/**
+ * Key of the `app.request` env of the requests the server sends to itself (e.g. scheduled actions and approved publishes)
+ * External requests can't set a symbol key, so such requests are authorized by the env instead of a token
+ */
+export const INTERNAL_REQUEST = Symbol('internal request')
+
+export type InternalRequestEnv = {
+	[INTERNAL_REQUEST]: { identity: string; scheduledActionId?: string; publishApproval?: PublishApproval }
+}
+
+/**
+ * `BEARER_TOKEN` belongs to the `default` identity, `AUTH_TOKENS` adds named tokens (`name:token,name:token`)
+ * so actions like pinning or approving can be attributed to a person or a CI pipeline
+ */
+function getTokens(): Map<string, string> {
+	const tokens = new Map<string, string>([[ENV.BEARER_TOKEN, 'default']])
+
+	ENV.AUTH_TOKENS?.split(',')
+		.map((item) => item.trim())
+		.filter(Boolean)
+		.forEach((item) => {
+			const separatorIndex = item.indexOf(':')
+			tokens.set(item.slice(separatorIndex + 1), item.slice(0, separatorIndex))
+		})
+
+	return tokens
+}
+
+/**
+ * @returns identity name or null if the token is unknown
+ */
+export function getIdentityByToken(token: string): string | null {
+	return getTokens().get(token) ?? null
+}
+
+/**
+ * Admins are listed in `ADMIN_IDENTITIES`, they can override release freezes
+ */
+export function isAdminIdentity(identity: string): boolean {
+	const admins = ENV.ADMIN_IDENTITIES?.split(',').map((item) => item.trim()) ?? []
+
+	return identity !== ANONYMOUS_IDENTITY && admins.includes(identity)
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod'
+import type { Pin } from '../pins/pins'
+
+export const buildInfoSchema = z.object({
+	version: z.number().describe('build version'),
+	builtAt: z.number().describe('build timestamp'),
+	builtAtReadable: z.string().describe('build timestamp in readable format'),
+	gitCommitHash: z.string().describe('git commit hash'),
+	gitBranch: z.string().describe('git branch'),
+	promotedFrom: z.string().optional().describe('key of the build this build was promoted from (e.g. develop-812)'),
+	appVersion: z
+		.string()
+		.regex(
+			/^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(-[0-9A-Za-z.-]+)?(\+[0-9A-Za-z.-]+)?$/,
+			'must be a semantic version (e.g. 1.4.0)',
+		)
+		.optional()
+		.describe('semantic version of the app'),
+	changelog: z.string().optional().describe('changelog text'),
+	pipelineUrl: z.string().url().optional().describe('url of the CI pipeline that built the build'),
+	author: z.string().optional().describe('author of the build (e.g. commit author or CI user)'),
+	meta: z.record(z.string(), z.unknown()).optional().describe('arbitrary custom metadata'),
+})
+
+export type BuildInfo = z.infer<typeof buildInfoSchema>
+
+/**
+ * Optional build info fields, older `build_info.json` files don't have them
+ */
+export type BuildInfoExtras = Pick<
+	BuildInfo,
+	'promotedFrom' | 'appVersion' | 'changelog' | 'pipelineUrl' | 'author' | 'meta'
+>
+
+export type DeployInfo = BuildInfo & {
+	deployedAt: string
+	pinned?: Pin
+}
+
+/**
+ * @returns optional fields of the build info, missing fields are undefined and are omitted in json
+ */
+export function getBuildInfoExtras(buildInfo: BuildInfo): BuildInfoExtras {
+	const { promotedFrom, appVersion, changelog, pipelineUrl, author, meta } = buildInfo
+
+	return { promotedFrom, appVersion, changelog, pipelineUrl, author, meta }
+}
@@ -0,0 +1,21 @@
+/**
+ * Build key is a string that consists of env and build number
+ * For example: `master-12` or `develop-12`
+ */
+export type BuildKey = `${string}-${number}`
+
+export function isBuildKey(key: string): key is BuildKey {
+	return /^[a-zA-Z0-9_-]+-\d+$/.test(key)
+}
+
+export function createBuildKey(env: string, version: number | string): BuildKey {
+	return `${env}-${version.toString()}` as BuildKey
+}
+
+export function parseBuildKey(key: BuildKey): { env: string; version: number } {
+	const [env, version] = key.split('-')
+	return {
+		env,
+		version: parseInt(version),
+	}
+}
@@ -0,0 +1,107 @@
+import * as fse from 'fs-extra'
+import path from 'path'
+import { z } from 'zod'
+import type { BuildFiles } from '../diff/build-files'
+import { ApiError } from '../utils/error/api-error'
+
+export const BUILD_MANIFEST_FILENAME = 'build_manifest.json'
+
+/**
+ * Checksums of the build files, CI creates the manifest after the build and ships it alongside `build_info.json`
+ * `build_info.json`, the manifest itself and its signature are not listed
+ */
+export const buildManifestSchema = z.object({
+	files: z
+		.record(
+			z.string(),
+			z
+				.string()
+				.regex(/^[a-f0-9]{64}$/, 'must be a sha256 hex digest')
+				.describe('sha256 of the file'),
+		)
+		.describe('checksums by relative file paths'),
+})
+
+export type BuildManifest = z.infer<typeof buildManifestSchema>
+
+export type BuildManifestMismatch = {
+	/** listed in the manifest, but absent in the build (e.g. partially synced build) */
+	missing: string[]
+	/** checksum differs from the manifest */
+	corrupted: string[]
+	/** present in the build, but not listed in the manifest */
+	unexpected: string[]
+}
+
+/**
+ * @returns manifest of the build or null if the build doesn't have one
+ * @throws {ApiError} if the manifest is invalid
+ */
+export function readBuildManifest(buildDir: string): BuildManifest | null {
+	const manifestPath = path.join(buildDir, BUILD_MANIFEST_FILENAME)
+	if (!fse.existsSync(manifestPath)) {
+		return null
+	}
+
+	const result = buildManifestSchema.safeParse(fse.readJsonSync(manifestPath))
+	if (!result.success) {
+		throw new ApiError(400, `${BUILD_MANIFEST_FILENAME} is invalid`, { errors: result.error.errors })
+	}
+
+	return result.data
+}
+
+/**
+ * @param files - hashes of the build files (without `build_info.json` and the manifest)
+ * @returns null if the files match the manifest
+ */
+export function findBuildManifestMismatch(manifest: BuildManifest, files: BuildFiles): BuildManifestMismatch | null {
+	const mismatch: BuildManifestMismatch = { missing: [], corrupted: [], unexpected: [] }
+
+	Object.entries(manifest.files).forEach(([relativePath, hash]) => {
+		const file = files[path.normalize(relativePath)]
+
+		if (!file) {
+			mismatch.missing.push(relativePath)
+		} else if (file.hash !== hash) {
+			mismatch.corrupted.push(relativePath)
+		}
+	})
+
+	const listedPaths = new Set(Object.keys(manifest.files).map((item) => path.normalize(item)))
+	mismatch.unexpected = Object.keys(files).filter((relativePath) => !listedPaths.has(relativePath))
+
+	const isMatching = Object.values(mismatch).every((items) => items.length === 0)
+
+	return isMatching ? null : mismatch
+}
+
+/**
+ * Verifies build files against the build manifest
+ * @param required - whether the build must have a manifest
+ * @returns whether the build was verified (false if the build doesn't have a manifest)
+ * @throws {ApiError} if the manifest is missing (when required) or the files don't match it
+ */
+export function verifyBuildManifest(
+	buildDir: string,
+	buildName: string,
+	files: () => BuildFiles,
+	required: boolean,
+): boolean {
+	const manifest = readBuildManifest(buildDir)
+
+	if (!manifest) {
+		if (required) {
+			throw new ApiError(404, `build '${buildName}' doesn't have ${BUILD_MANIFEST_FILENAME}`)
+		}
+
+		return false
+	}
+
+	const mismatch = findBuildManifestMismatch(manifest, files())
+	if (mismatch) {
+		throw new ApiError(400, `build '${buildName}' doesn't match ${BUILD_MANIFEST_FILENAME}`, mismatch)
+	}
+
+	return true
+}
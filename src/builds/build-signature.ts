@@ -0,0 +1,91 @@
+import { createPublicKey, verify, type KeyObject } from 'crypto'
+import * as fse from 'fs-extra'
+import path from 'path'
+import { z } from 'zod'
+import { getStateDir } from '../state-dir'
+import { ApiError } from '../utils/error/api-error'
+import { BUILD_MANIFEST_FILENAME } from './build-manifest'
+
+/**
+ * Detached ed25519 signature of `build_manifest.json` (base64)
+ */
+export const BUILD_SIGNATURE_FILENAME = 'build_manifest.sig'
+
+export const signingConfigSchema = z.object({
+	required: z.boolean().optional().describe('whether unsigned builds are rejected on /postDeploy and /publish'),
+	trustedKeys: z
+		.record(z.string(), z.string())
+		.describe('ed25519 public keys by names, PEM or base64 of the raw 32-byte key'),
+})
+
+export type SigningConfig = z.infer<typeof signingConfigSchema>
+
+/**
+ * Signing config is edited on the server only and is not exposed via API,
+ * otherwise a leaked bearer token would be enough to replace the trusted keys
+ */
+function getSigningConfigPath(game: string): string {
+	return getStateDir('games', game, 'signing.json')
+}
+
+/**
+ * @returns signing config of the game or null if the game doesn't have trusted keys
+ */
+export function readSigningConfig(game: string): SigningConfig | null {
+	const configPath = getSigningConfigPath(game)
+	if (!fse.existsSync(configPath)) {
+		return null
+	}
+
+	return signingConfigSchema.parse(fse.readJsonSync(configPath))
+}
+
+/**
+ * Verifies signature of the build manifest against the trusted keys of the game
+ * Builds of games without trusted keys are not verified
+ * @returns name of the key the build is signed with or null if the build is not verified
+ * @throws {ApiError} if the build is not signed (when signing is required) or the signature doesn't match any trusted key
+ */
+export function verifyBuildSignature(game: string, buildDir: string, buildName: string): string | null {
+	const config = readSigningConfig(game)
+	if (!config) {
+		return null
+	}
+
+	const manifestPath = path.join(buildDir, BUILD_MANIFEST_FILENAME)
+	const signaturePath = path.join(buildDir, BUILD_SIGNATURE_FILENAME)
+
+	if (!fse.existsSync(manifestPath) || !fse.existsSync(signaturePath)) {
+		if (config.required) {
+			throw new ApiError(403, `build '${buildName}' is not signed`, {
+				expectedFiles: [BUILD_MANIFEST_FILENAME, BUILD_SIGNATURE_FILENAME],
+			})
+		}
+
+		return null
+	}
+
+	const manifest = new Uint8Array(fse.readFileSync(manifestPath))
+	const signature = new Uint8Array(Buffer.from(fse.readFileSync(signaturePath, 'utf-8').trim(), 'base64'))
+
+	const keyName = Object.keys(config.trustedKeys).find((name) => {
+		return verify(null, manifest, parsePublicKey(config.trustedKeys[name]), signature)
+	})
+
+	if (!keyName) {
+		throw new ApiError(403, `build '${buildName}' signature doesn't match any trusted key`)
+	}
+
+	return keyName
+}
+
+function parsePublicKey(key: string): KeyObject {
+	if (key.trim().startsWith('-----BEGIN')) {
+		return createPublicKey(key)
+	}
+
+	return createPublicKey({
+		key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(key, 'base64').toString('base64url') },
+		format: 'jwk',
+	})
+}
@@ -0,0 +1,172 @@
+import * as fse from 'fs-extra'
+import path from 'path'
+import { SYSTEM_IDENTITY } from '../auth/identities'
+import { removeDeploymentFilesCache } from '../diff/build-files'
+import { env as ENV } from '../env'
+import { appendDeploymentHistory } from '../history/deployment-history'
+import { getDeployLockKey } from '../locks/lock-middleware'
+import { withLock } from '../locks/locks'
+import { getStateDir } from '../state-dir'
+import { fromReadableDateString, toReadableDateString } from '../utils/date/readable-date-string'
+import { ApiError } from '../utils/error/api-error'
+import { writeJsonAtomic } from '../utils/fs/write-json-atomic'
+
+/**
+ * Version reserved by /preDeploy that is not finalized by /postDeploy yet
+ */
+export type PendingDeploy = {
+	version: number
+	reservedAt: string
+	identity: string
+}
+
+function getPendingDeploysPath(game: string, env: string): string {
+	return getStateDir('games', game, 'envs', env, 'pending.json')
+}
+
+/**
+ * @returns pending deploys of the environment sorted by version
+ */
+export function getPendingDeploys(game: string, env: string): PendingDeploy[] {
+	const pendingPath = getPendingDeploysPath(game, env)
+	if (!fse.existsSync(pendingPath)) {
+		return []
+	}
+
+	return (fse.readJsonSync(pendingPath) as PendingDeploy[]).sort((a, b) => a.version - b.version)
+}
+
+/**
+ * Pending build dir is created by /preDeploy from the previous build, so it looks like a valid build until /postDeploy
+ */
+export function isPendingDeploy(game: string, env: string, version: number): boolean {
+	return getPendingDeploys(game, env).some((item) => item.version === version)
+}
+
+function savePendingDeploys(game: string, env: string, pendingDeploys: PendingDeploy[]): void {
+	writeJsonAtomic(getPendingDeploysPath(game, env), pendingDeploys)
+}
+
+export function addPendingDeploy(game: string, env: string, version: number, identity: string): PendingDeploy {
+	const pendingDeploy: PendingDeploy = {
+		version,
+		reservedAt: toReadableDateString(Date.now()),
+		identity,
+	}
+
+	savePendingDeploys(game, env, [
+		...getPendingDeploys(game, env).filter((item) => item.version !== version),
+		pendingDeploy,
+	])
+
+	return pendingDeploy
+}
+
+/**
+ * @returns removed pending deploy or undefined if the version wasn't pending
+ */
+export function removePendingDeploy(game: string, env: string, version: number): PendingDeploy | undefined {
+	const pendingDeploys = getPendingDeploys(game, env)
+
+	const pendingDeploy = pendingDeploys.find((item) => item.version === version)
+	if (!pendingDeploy) {
+		return undefined
+	}
+
+	savePendingDeploys(
+		game,
+		env,
+		pendingDeploys.filter((item) => item !== pendingDeploy),
+	)
+
+	return pendingDeploy
+}
+
+export function getPendingDeployExpiresAt(pendingDeploy: PendingDeploy): string {
+	return toReadableDateString(
+		fromReadableDateString(pendingDeploy.reservedAt) + ENV.PENDING_DEPLOY_TTL_HOURS * 60 * 60 * 1000,
+	)
+}
+
+/**
+ * Removes the pending deploy together with its build directory
+ * Must be called under the deploy lock of the environment
+ * @returns removed pending deploy or undefined if the version wasn't pending
+ */
+export function cancelPendingDeploy(
+	game: string,
+	env: string,
+	version: number,
+	identity: string,
+	type: 'cancel' | 'expire' = 'cancel',
+): PendingDeploy | undefined {
+	const pendingDeploy = removePendingDeploy(game, env, version)
+	if (!pendingDeploy) {
+		return undefined
+	}
+
+	fse.rmSync(path.join(ENV.GAME_BUILDS_DIR, game, env, version.toString()), { recursive: true, force: true })
+	removeDeploymentFilesCache(game, env, version.toString())
+
+	appendDeploymentHistory(game, env, { type, version, identity })
+
+	return pendingDeploy
+}
+
+/**
+ * Removes pending deploys that were not finalized within `PENDING_DEPLOY_TTL_HOURS` together with their build directories
+ * Must be called under the deploy lock of the environment
+ * @returns removed pending deploys
+ */
+export function removeExpiredPendingDeploys(game: string, env: string): PendingDeploy[] {
+	const now = Date.now()
+
+	const expired = getPendingDeploys(game, env).filter(
+		(item) => fromReadableDateString(getPendingDeployExpiresAt(item)) <= now,
+	)
+
+	expired.forEach((item) => cancelPendingDeploy(game, env, item.version, SYSTEM_IDENTITY, 'expire'))
+
+	return expired
+}
+
+/**
+ * Removes expired pending deploys of all games and environments
+ * Environments locked by a running deploy are skipped until the next time
+ */
+export async function removeAllExpiredPendingDeploys(): Promise<{ game: string; env: string; version: number }[]> {
+	const gamesDir = getStateDir('games')
+	if (!fse.existsSync(gamesDir)) {
+		return []
+	}
+
+	const envs = fse.readdirSync(gamesDir).flatMap((game) => {
+		const envsDir = path.join(gamesDir, game, 'envs')
+		if (!fse.existsSync(envsDir)) {
+			return []
+		}
+
+		return fse
+			.readdirSync(envsDir)
+			.filter((env) => fse.existsSync(path.join(envsDir, env, 'pending.json')))
+			.map((env) => ({ game, env }))
+	})
+
+	const removed: { game: string; env: string; version: number }[] = []
+
+	for (const { game, env } of envs) {
+		try {
+			const expired = await withLock(getDeployLockKey(game, env), 'pending deploys cleanup', {}, () =>
+				removeExpiredPendingDeploys(game, env),
+			)
+
+			removed.push(...expired.map((item) => ({ game, env, version: item.version })))
+		} catch (error) {
+			if (!(error instanceof ApiError && error.status === 423)) {
+				throw error
+			}
+		}
+	}
+
+	return removed
+}
@@ -0,0 +1,179 @@
+import * as fse from 'fs-extra'
+import { createHash } from 'node:crypto'
+import path from 'path'
+import { BUILD_MANIFEST_FILENAME } from '../builds/build-manifest'
+import { BUILD_SIGNATURE_FILENAME } from '../builds/build-signature'
+import { env as ENV } from '../env'
+import { getStateDir } from '../state-dir'
+import { hashFile, listFiles } from '../store/object-store'
+import { writeJsonAtomic } from '../utils/fs/write-json-atomic'
+
+/**
+ * Hashes and sizes of the build files by their relative paths
+ * Build files never change after /postDeploy (or /publish), so they are hashed once and cached in the state dir
+ */
+export type BuildFiles = Record<string, { hash: string; size: number }>
+
+export type BuildFilesDiff = {
+	added: { path: string; size: number }[]
+	removed: { path: string; size: number }[]
+	modified: { path: string; oldSize: number; newSize: number; sizeDelta: number }[]
+	unchangedNum: number
+	sizeDelta: number
+}
+
+function getDeploymentCachePath(game: string, env: string, version: string): string {
+	return getStateDir('cache', 'deployments', game, env, `${version}.json`)
+}
+
+function getReleaseCachePath(releasesDir: string, buildKey: string): string {
+	return getStateDir('cache', 'releases', path.relative(ENV.GAME_BUILDS_DIR, releasesDir), `${buildKey}.json`)
+}
+
+function hashFiles(dir: string, relativePaths: string[]): BuildFiles {
+	return Object.fromEntries(
+		relativePaths.map((relativePath) => {
+			const filepath = path.join(dir, relativePath)
+			return [relativePath, { hash: hashFile(filepath), size: fse.statSync(filepath).size }]
+		}),
+	)
+}
+
+function readCache(cachePath: string): BuildFiles | null {
+	return fse.existsSync(cachePath) ? (fse.readJsonSync(cachePath) as BuildFiles) : null
+}
+
+/**
+ * Hashes files of the build without the cache
+ * `build_info.json`, the build manifest and its signature are skipped because they differ in every build
+ */
+export function hashBuildFiles(buildDir: string): BuildFiles {
+	return hashFiles(
+		buildDir,
+		listFiles(buildDir).filter(
+			(relativePath) =>
+				!['build_info.json', BUILD_MANIFEST_FILENAME, BUILD_SIGNATURE_FILENAME].includes(relativePath),
+		),
+	)
+}
+
+/**
+ * @returns sha256 over the paths and hashes of the build files, it changes whenever any of the files changes
+ */
+export function getBuildFingerprint(files: BuildFiles): string {
+	const hash = createHash('sha256')
+
+	Object.keys(files)
+		.sort()
+		.forEach((relativePath) => hash.update(`${relativePath}\0${files[relativePath].hash}\n`))
+
+	return hash.digest('hex')
+}
+
+/**
+ * @returns files of the deployed build, see `hashBuildFiles`
+ */
+export function getDeploymentFiles(game: string, env: string, version: string): BuildFiles {
+	const cachePath = getDeploymentCachePath(game, env, version)
+
+	const cached = readCache(cachePath)
+	if (cached) {
+		return cached
+	}
+
+	const files = hashBuildFiles(path.join(ENV.GAME_BUILDS_DIR, game, env, version))
+
+	writeJsonAtomic(cachePath, files)
+
+	return files
+}
+
+/**
+ * Must be called when the build files change (redeploy) or the build is removed
+ */
+export function removeDeploymentFilesCache(game: string, env: string, version: string): void {
+	fse.rmSync(getDeploymentCachePath(game, env, version), { force: true })
+}
+
+/**
+ * Release files share the releases dir and a file of an older release can be replaced by a newer release,
+ * so the files are hashed at publish time (see `saveReleaseFiles`), releases published before that are hashed on demand
+ * `index_<buildKey>.html` is reported as `index.html` and `files_<buildKey>.json` is skipped, so releases can be compared
+ * @param filesList - contents of `files_<buildKey>.json`
+ */
+export function getReleaseFiles(releasesDir: string, buildKey: string, filesList: string[]): BuildFiles {
+	const cachePath = getReleaseCachePath(releasesDir, buildKey)
+
+	const cached = readCache(cachePath)
+	if (cached) {
+		return cached
+	}
+
+	const files = normalizeReleaseFiles(buildKey, hashFiles(releasesDir, filesList))
+
+	writeJsonAtomic(cachePath, files)
+
+	return files
+}
+
+/**
+ * Caches hashes of the release files while they are staged for publishing
+ */
+export function saveReleaseFiles(releasesDir: string, buildKey: string, stagingDir: string): void {
+	const files = normalizeReleaseFiles(buildKey, hashFiles(stagingDir, listFiles(stagingDir)))
+
+	writeJsonAtomic(getReleaseCachePath(releasesDir, buildKey), files)
+}
+
+export function removeReleaseFilesCache(releasesDir: string, buildKey: string): void {
+	fse.rmSync(getReleaseCachePath(releasesDir, buildKey), { force: true })
+}
+
+function normalizeReleaseFiles(buildKey: string, files: BuildFiles): BuildFiles {
+	return Object.fromEntries(
+		Object.entries(files)
+			.filter(([relativePath]) => relativePath !== `files_${buildKey}.json`)
+			.map(([relativePath, file]) => [
+				relativePath === `index_${buildKey}.html` ? 'index.html' : relativePath,
+				file,
+			]),
+	)
+}
+
+/**
+ * Compares files of two builds by their hashes
+ */
+export function diffBuildFiles(from: BuildFiles, to: BuildFiles): BuildFilesDiff {
+	const diff: BuildFilesDiff = { added: [], removed: [], modified: [], unchangedNum: 0, sizeDelta: 0 }
+
+	Object.entries(to).forEach(([relativePath, file]) => {
+		const oldFile = from[relativePath]
+
+		if (!oldFile) {
+			diff.added.push({ path: relativePath, size: file.size })
+		} else if (oldFile.hash !== file.hash) {
+			diff.modified.push({
+				path: relativePath,
+				oldSize: oldFile.size,
+				newSize: file.size,
+				sizeDelta: file.size - oldFile.size,
+			})
+		} else {
+			diff.unchangedNum++
+		}
+	})
+
+	Object.entries(from)
+		.filter(([relativePath]) => !to[relativePath])
+		.forEach(([relativePath, file]) => diff.removed.push({ path: relativePath, size: file.size }))
+
+	const byPath = (a: { path: string }, b: { path: string }) => a.path.localeCompare(b.path)
+	diff.added.sort(byPath)
+	diff.removed.sort(byPath)
+	diff.modified.sort(byPath)
+
+	const totalSize = (files: BuildFiles) => Object.values(files).reduce((acc, file) => acc + file.size, 0)
+	diff.sizeDelta = totalSize(to) - totalSize(from)
+
+	return diff
+}
@@ -11,10 +11,15 @@ export const env = createEnv({
 
 	client: {
 		BEARER_TOKEN: z.string().min(1),
+		AUTH_TOKENS: z.string().optional(),
+		ADMIN_IDENTITIES: z.string().optional(),
 		GAME_BUILDS_DIR: z.string().refine((value) => path.isAbsolute(value), 'must be an absolute path'),
 		GAME_BUILDS_DIR_HOST: z.string().refine((value) => path.isAbsolute(value), 'must be an absolute path'),
 		BUILD_VERSION: z.string().optional(),
 		DEPLOYED_AT: z.string().optional(),
+		UPLOAD_SESSION_TTL_HOURS: z.coerce.number().positive().default(24),
+		LOCK_STALE_MINUTES: z.coerce.number().positive().default(30),
+		PENDING_DEPLOY_TTL_HOURS: z.coerce.number().positive().default(24),
 		AUTH_REQUIRED: z
 			.enum(['true', 'false'])
 			.default('true')
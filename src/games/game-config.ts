@@ -0,0 +1,106 @@
+import * as fse from 'fs-extra'
+import { z } from 'zod'
+import { getStateDir } from '../state-dir'
+import { writeJsonAtomic } from '../utils/fs/write-json-atomic'
+
+export const retentionPolicySchema = z.object({
+	keepLast: z.number().int().nonnegative().optional().describe('number of the newest builds to keep'),
+	keepDays: z.number().positive().optional().describe('keep builds that are newer than this number of days'),
+})
+
+export const sizeBudgetsSchema = z.object({
+	mode: z
+		.enum(['warn', 'block'])
+		.optional()
+		.describe('`warn` (default) only reports violations, `block` fails the deploy'),
+	maxTotalSize: z.number().int().positive().optional().describe('max size of all build files in bytes'),
+	maxFileSize: z.number().int().positive().optional().describe('max size of a single file in bytes'),
+	globs: z
+		.record(z.string(), z.number().int().positive())
+		.optional()
+		.describe('max total size of the files matching the glob in bytes, e.g. `{ "*.js": 5242880 }`'),
+})
+
+export const gameConfigSchema = z.object({
+	channels: z
+		.array(
+			z
+				.string()
+				.regex(/^[a-z0-9_-]+$/, 'must contain only lowercase letters, digits, `-` and `_`')
+				.describe('channel name'),
+		)
+		.optional()
+		.describe('release channels besides `prod` (e.g. beta, internal)'),
+	retention: z
+		.object({
+			deployments: z
+				.object({
+					default: retentionPolicySchema.optional(),
+					envs: z.record(z.string(), retentionPolicySchema).optional().describe('overrides per environment'),
+				})
+				.optional(),
+			releases: z
+				.object({
+					default: retentionPolicySchema.optional(),
+					platforms: z
+						.record(z.string(), retentionPolicySchema)
+						.optional()
+						.describe('overrides per platform'),
+				})
+				.optional(),
+		})
+		.optional(),
+	approvals: z
+		.object({
+			required: z.boolean().describe('whether publishes must be approved by another identity'),
+			channels: z
+				.array(z.string())
+				.optional()
+				.describe('channels the approvals are required in, `["prod"]` by default'),
+			ttlHours: z
+				.number()
+				.positive()
+				.optional()
+				.describe('publish requests that are not approved within this number of hours expire, 24 by default'),
+		})
+		.optional(),
+	integrity: z
+		.object({
+			requireManifest: z
+				.boolean()
+				.optional()
+				.describe('whether builds without build_manifest.json are rejected on /postDeploy and /publish'),
+		})
+		.optional(),
+	sizeBudgets: z
+		.object({
+			default: sizeBudgetsSchema.optional(),
+			envs: z.record(z.string(), sizeBudgetsSchema).optional().describe('overrides per environment'),
+		})
+		.optional(),
+})
+
+export type GameConfig = z.infer<typeof gameConfigSchema>
+
+/**
+ * Game config is kept in the state dir, so it is not served by the web server together with the builds
+ */
+function getGameConfigPath(game: string): string {
+	return getStateDir('games', game, 'config.json')
+}
+
+/**
+ * @returns config of the game or an empty config if the game doesn't have one
+ */
+export function readGameConfig(game: string): GameConfig {
+	const configPath = getGameConfigPath(game)
+	if (!fse.existsSync(configPath)) {
+		return {}
+	}
+
+	return gameConfigSchema.parse(fse.readJsonSync(configPath))
+}
+
+export function writeGameConfig(game: string, config: GameConfig): void {
+	writeJsonAtomic(getGameConfigPath(game), config)
+}
@@ -0,0 +1,109 @@
+import * as fse from 'fs-extra'
+import path from 'path'
+import type { BuildInfo } from '../builds/build-info'
+import { getStateDir } from '../state-dir'
+import { toReadableDateString } from '../utils/date/readable-date-string'
+
+/**
+ * Append-only ledger of everything that happened to the environment builds, one JSON object per line
+ * It is kept in the state dir, so it survives removal of the builds and doesn't depend on the directories mtime
+ */
+export type DeploymentHistoryEntry = {
+	type: DeploymentHistoryEntryType
+	version: number
+	at: string
+	identity: string
+	/**
+	 * Build info at the moment of the deploy or rollback, not present for cleanups and canceled deploys
+	 */
+	buildInfo?: BuildInfo
+}
+
+export type DeploymentHistoryEntryType =
+	/**
+	 * Build was deployed (/postDeploy, archive or chunked upload)
+	 */
+	| 'deploy'
+	/**
+	 * Build with the same version was deployed again
+	 */
+	| 'redeploy'
+	/**
+	 * `latest` symlink was switched back to the build (/rollbackDeployment)
+	 */
+	| 'rollback'
+	/**
+	 * Build was removed by the retention policy
+	 */
+	| 'cleanup'
+	/**
+	 * Pending deploy was canceled before /postDeploy
+	 */
+	| 'cancel'
+	/**
+	 * Pending deploy was removed because it was not finalized in time
+	 */
+	| 'expire'
+
+function getHistoryPath(game: string, env: string): string {
+	return getStateDir('games', game, 'envs', env, 'history.jsonl')
+}
+
+export function appendDeploymentHistory(
+	game: string,
+	env: string,
+	entry: Omit<DeploymentHistoryEntry, 'at'>,
+): DeploymentHistoryEntry {
+	const historyEntry: DeploymentHistoryEntry = {
+		type: entry.type,
+		version: entry.version,
+		at: toReadableDateString(Date.now()),
+		identity: entry.identity,
+		...(entry.buildInfo && { buildInfo: entry.buildInfo }),
+	}
+
+	const historyPath = getHistoryPath(game, env)
+	fse.ensureDirSync(path.dirname(historyPath))
+	fse.appendFileSync(historyPath, JSON.stringify(historyEntry) + '\n')
+
+	return historyEntry
+}
+
+/**
+ * @returns history entries from oldest to newest
+ */
+export function readDeploymentHistory(game: string, env: string): DeploymentHistoryEntry[] {
+	const historyPath = getHistoryPath(game, env)
+	if (!fse.existsSync(historyPath)) {
+		return []
+	}
+
+	return fse
+		.readFileSync(historyPath, 'utf-8')
+		.split('\n')
+		.filter((line) => line.trim() !== '')
+		.map((line) => JSON.parse(line) as DeploymentHistoryEntry)
+}
+
+/**
+ * @returns date of the last deploy of each build version that is recorded in the history
+ */
+export function getDeployDates(game: string, env: string): Map<number, string> {
+	const dates = new Map<number, string>()
+
+	readDeploymentHistory(game, env)
+		.filter((entry) => entry.type === 'deploy' || entry.type === 'redeploy')
+		.forEach((entry) => dates.set(entry.version, entry.at))
+
+	return dates
+}
+
+/**
+ * @param deployDates - result of `getDeployDates`
+ * @returns deploy date of the build, builds deployed before the history was introduced fall back to the directory mtime
+ */
+export function getDeployedAt(deployDates: Map<number, string>, buildDir: string): string {
+	const deployedAt = deployDates.get(parseInt(path.basename(buildDir)))
+
+	return deployedAt ?? toReadableDateString(fse.statSync(buildDir).mtime.getTime())
+}
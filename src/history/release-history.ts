@@ -0,0 +1,85 @@
+import * as fse from 'fs-extra'
+import path from 'path'
+import { getStateDir } from '../state-dir'
+import { toReadableDateString } from '../utils/date/readable-date-string'
+
+/**
+ * Append-only ledger of the publishes and rollbacks of the platform in the channel, one JSON object per line
+ * Unlike `releases.json` it keeps failed scheduled actions and releases that were already removed
+ */
+export type ReleaseHistoryEntry = {
+	type: 'publish' | 'rollback' | 'yank'
+	/**
+	 * Null if a scheduled action failed before the build key was resolved
+	 */
+	buildKey: string | null
+	at: string
+	identity: string
+	/**
+	 * Id of the scheduled action that performed the publish or rollback
+	 */
+	scheduledActionId?: string
+	/**
+	 * Id of the approved publish request, `identity` is the requester in this case
+	 */
+	publishRequestId?: string
+	approvedBy?: string
+	/**
+	 * The publish waits for approval of the publish request, the build is not published yet
+	 */
+	pending?: boolean
+	/**
+	 * Ids of the freezes an admin overrode with `?overrideFreeze=true`
+	 */
+	overriddenFreezes?: string[]
+	/**
+	 * Error message of the failed scheduled action
+	 */
+	error?: string
+}
+
+function getHistoryPath(game: string, platform: string, channel: string): string {
+	return getStateDir('games', game, 'channels', channel, platform, 'history.jsonl')
+}
+
+export function appendReleaseHistory(
+	game: string,
+	platform: string,
+	channel: string,
+	entry: Omit<ReleaseHistoryEntry, 'at'>,
+): ReleaseHistoryEntry {
+	const historyEntry: ReleaseHistoryEntry = {
+		type: entry.type,
+		buildKey: entry.buildKey,
+		at: toReadableDateString(Date.now()),
+		identity: entry.identity,
+		...(entry.scheduledActionId && { scheduledActionId: entry.scheduledActionId }),
+		...(entry.publishRequestId && { publishRequestId: entry.publishRequestId }),
+		...(entry.approvedBy && { approvedBy: entry.approvedBy }),
+		...(entry.pending && { pending: true }),
+		...(entry.overriddenFreezes?.length && { overriddenFreezes: entry.overriddenFreezes }),
+		...(entry.error && { error: entry.error }),
+	}
+
+	const historyPath = getHistoryPath(game, platform, channel)
+	fse.ensureDirSync(path.dirname(historyPath))
+	fse.appendFileSync(historyPath, JSON.stringify(historyEntry) + '\n')
+
+	return historyEntry
+}
+
+/**
+ * @returns history entries from oldest to newest
+ */
+export function readReleaseHistory(game: string, platform: string, channel: string): ReleaseHistoryEntry[] {
+	const historyPath = getHistoryPath(game, platform, channel)
+	if (!fse.existsSync(historyPath)) {
+		return []
+	}
+
+	return fse
+		.readFileSync(historyPath, 'utf-8')
+		.split('\n')
+		.filter((line) => line.trim() !== '')
+		.map((line) => JSON.parse(line) as ReleaseHistoryEntry)
+}
@@ -1,66 +1,137 @@
 import * as fse from 'fs-extra'
-import { globby, globbySync } from 'globby'
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import { logger } from 'hono/logger'
-import { without } from 'lodash-es'
+import { isEqual, omit } from 'lodash-es'
 import path from 'path'
-import { z } from 'zod'
+import {
+	ANONYMOUS_IDENTITY,
+	getIdentityByToken,
+	INTERNAL_REQUEST,
+	isAdminIdentity,
+	type InternalRequestEnv,
+} from './auth/identities'
+import { buildInfoSchema, getBuildInfoExtras, type BuildInfo, type DeployInfo } from './builds/build-info'
+import { createBuildKey, isBuildKey, parseBuildKey, type BuildKey } from './builds/build-key'
+import { verifyBuildManifest } from './builds/build-manifest'
+import { verifyBuildSignature } from './builds/build-signature'
+import {
+	addPendingDeploy,
+	cancelPendingDeploy,
+	getPendingDeployExpiresAt,
+	getPendingDeploys,
+	isPendingDeploy,
+	removeAllExpiredPendingDeploys,
+	removeExpiredPendingDeploys,
+	removePendingDeploy,
+} from './builds/pending-deploys'
+import {
+	diffBuildFiles,
+	getBuildFingerprint,
+	getDeploymentFiles,
+	getReleaseFiles,
+	hashBuildFiles,
+	removeDeploymentFilesCache,
+	type BuildFiles,
+} from './diff/build-files'
 import { env as ENV } from './env'
-import { fromReadableDateString, toReadableDateString } from './utils/date/readable-date-string'
+import { gameConfigSchema, readGameConfig, writeGameConfig } from './games/game-config'
+import {
+	appendDeploymentHistory,
+	getDeployDates,
+	getDeployedAt,
+	readDeploymentHistory,
+} from './history/deployment-history'
+import { appendReleaseHistory, readReleaseHistory } from './history/release-history'
+import { getDeployLockKey, getReleaseLockKey, lock } from './locks/lock-middleware'
+import { withLock } from './locks/locks'
+import { createPin, getDeploymentPins, pinDeployment, pinRequestSchema, unpinDeployment } from './pins/pins'
+import { DEFAULT_CHANNEL, getReleasesDir, resolveChannel } from './releases/channels'
+import {
+	checkFreezes,
+	createFreeze,
+	freezeRequestSchema,
+	getActiveFreezes,
+	getFreezes,
+	isFreezeActive,
+	removeFreeze,
+	type Freeze,
+} from './releases/freezes'
+import {
+	createPublishRequest,
+	getPublishRequest,
+	getPublishRequests,
+	getPublishRequestsLockKey,
+	isApprovalRequired,
+	isPublishRequestExpired,
+	removeAllExpiredPublishRequests,
+	removeExpiredPublishRequests,
+	removePublishRequest,
+	type PublishRequest,
+} from './releases/publish-requests'
+import { planPublish, publishRelease, recoverInterruptedPublishes } from './releases/publish-transaction'
+import {
+	getPreviousReleaseBuildKey,
+	planReleasesRetention,
+	updateIndexHtmlSymlink,
+	type ReleaseInfo,
+	type Releases,
+} from './releases/releases'
+import {
+	readRolloutReleases,
+	rolloutPercentageSchema,
+	rolloutRequestSchema,
+	writeRolloutIndexHtml,
+} from './releases/rollout'
+import { yankRelease, yankRequestSchema } from './releases/yank'
+import {
+	getDeploymentsRetentionPolicy,
+	getReleasesRetentionPolicy,
+	planDeploymentsRetention,
+	type RetentionPolicy,
+} from './retention/retention'
+import {
+	cancelScheduledAction,
+	getScheduledActions,
+	runDueScheduledActions,
+	scheduleAction,
+	scheduleRequestSchema,
+	type ScheduledAction,
+} from './schedule/scheduled-actions'
+import { createSizeReport, getSizeBudgets, type SizeReport } from './size-budgets/size-budgets'
+import { getStateDir } from './state-dir'
+import { collectGarbage, ingestDir, linkDir } from './store/object-store'
+import { extractArchive, saveBodyToFile } from './upload/archive'
+import { applyDeltaManifest, deltaManifestSchema } from './upload/delta'
+import {
+	assembleChunks,
+	getMissingChunks,
+	getReceivedChunks,
+	getUploadSession,
+	removeAbandonedUploadSessions,
+	removeUploadSession,
+	saveChunk,
+	startUploadSession,
+} from './upload/upload-sessions'
+import { toReadableDateString } from './utils/date/readable-date-string'
+import { ApiError } from './utils/error/api-error'
 import { getErrorLog } from './utils/error/utils'
+import { writeJsonAtomic } from './utils/fs/write-json-atomic'
 
-/**
- * Build key is a string that consists of env and build number
- * For example: `master-12` or `develop-12`
- */
-type BuildKey = `${string}-${number}`
-
-function isBuildKey(key: string): key is BuildKey {
-	return /^[a-zA-Z0-9_-]+-\d+$/.test(key)
-}
+export type { ReleaseInfo } from './releases/releases'
 
-function createBuildKey(env: string, version: number | string): BuildKey {
-	return `${env}-${version.toString()}` as BuildKey
-}
+const app = new Hono()
 
-function parseBuildKey(key: BuildKey): { env: string; version: number } {
-	const [env, version] = key.split('-')
-	return {
-		env,
-		version: parseInt(version),
+// Send errors thrown from route helpers as json
+app.onError((error, c) => {
+	if (error instanceof ApiError) {
+		return c.json(error.toJSON(), error.status)
 	}
-}
-
-const buildInfoSchema = z.object({
-	version: z.number().describe('build version'),
-	builtAt: z.number().describe('build timestamp'),
-	builtAtReadable: z.string().describe('build timestamp in readable format'),
-	gitCommitHash: z.string().describe('git commit hash'),
-	gitBranch: z.string().describe('git branch'),
-})
-
-type BuildInfo = z.infer<typeof buildInfoSchema>
-
-type DeployInfo = BuildInfo & {
-	deployedAt: string
-}
-
-export type ReleaseInfo = {
-	key: BuildKey
-	index: string
-	files: string
-	releasedAt: string
-	builtAt: string
-	gitBranch: string
-	gitCommit: string
-}
 
-type Releases = {
-	current: string | null
-	builds: ReleaseInfo[]
-}
+	const time = toReadableDateString(Date.now(), 'ms')
+	console.error(`[${time}] ${c.req.method} ${c.req.path} failed:`, error)
 
-const app = new Hono()
+	return c.json({ message: `internal error (${getErrorLog(error)})` }, 500)
+})
 
 // Add health endpoint
 app.get('/health', (c) => {
@@ -92,12 +163,24 @@ app.use(async function authMiddleware(c: any, next: any) {
 		return await next()
 	}
 
-	if (!ENV.AUTH_REQUIRED) {
+	// requests the server sends to itself (scheduled actions and approved publishes) carry the identity in the env
+	const internalRequest = (c.env as Partial<InternalRequestEnv> | undefined)?.[INTERNAL_REQUEST]
+	if (internalRequest) {
+		c.set('identity', internalRequest.identity)
+		c.set('scheduledActionId', internalRequest.scheduledActionId)
+		c.set('publishApproval', internalRequest.publishApproval)
 		return await next()
 	}
 
 	const authHeader = c.req.header('Authorization')
 
+	if (!ENV.AUTH_REQUIRED) {
+		// token is optional, but still identifies the caller if it is valid
+		const [, token] = authHeader?.split(' ') ?? []
+		c.set('identity', getIdentityByToken(token ?? '') ?? ANONYMOUS_IDENTITY)
+		return await next()
+	}
+
 	if (!authHeader) {
 		return c.json({ message: 'Authorization header is required' }, 401)
 	}
@@ -108,50 +191,71 @@ app.use(async function authMiddleware(c: any, next: any) {
 		return c.json({ message: 'Bearer token is required' }, 401)
 	}
 
-	if (token !== ENV.BEARER_TOKEN) {
+	const identity = getIdentityByToken(token)
+
+	if (!identity) {
 		return c.json({ message: 'Invalid token' }, 401)
 	}
 
+	c.set('identity', identity)
+
 	return await next()
 })
 
+// mutating routes are serialized per environment (deploys) and per platform (releases)
+const deployLock = lock((c) => getDeployLockKey(c.req.param('game')!, c.req.param('env')!))
+const releaseLock = lock((c) =>
+	getReleaseLockKey(c.req.param('game')!, c.req.param('platform')!, c.req.query('channel') || DEFAULT_CHANNEL),
+)
+const promoteLock = lock((c) => getDeployLockKey(c.req.param('game')!, c.req.param('dstEnv')!))
+const uploadSessionLock = lock((c) => {
+	const session = getUploadSession(c.req.param('id')!)
+	return getDeployLockKey(session.game, session.env)
+})
+
 app.get('/', (c) => c.text(ENV.GAME_BUILDS_DIR))
 
 app.get('/env', (c) => {
-	return c.json(ENV)
+	// tokens of other identities must not leak to any token holder
+	return c.json(omit(ENV, ['BEARER_TOKEN', 'AUTH_TOKENS']))
 })
 
 // готовим новый билд к деплою в конкретное окружение
 // endpoint возвращает директорию `newBuildDir`, в которую нужно положить билд (например, используя rsync)
-app.get('/preDeploy/:game/:env/:version', (c) => {
+// вместо версии можно передать `next`, тогда сервер сам выберет следующую свободную версию
+app.get('/preDeploy/:game/:env/:version', deployLock, (c) => {
 	const game = c.req.param('game')
 
 	const env = c.req.param('env')
 
-	const build = parseInt(c.req.param('version'))
+	const envDir = path.join(ENV.GAME_BUILDS_DIR, game, env)
 
-	if (!Number.isInteger(build) || build <= 0) {
-		return c.json({ message: 'invalid version, must be a positive integer' }, 400)
-	}
+	fse.ensureDirSync(envDir)
 
-	const envDir = path.join(ENV.GAME_BUILDS_DIR, game, env)
+	// освобождаем версии, которые так и не были задеплоены
+	removeExpiredPendingDeploys(game, env)
 
-	const buildDir = path.join(envDir, build.toString())
+	// зарезервированные версии считаются занятыми, даже если их директории еще пустые
+	const reservedBuilds = getPendingDeploys(game, env).map((item) => item.version)
 
-	fse.ensureDirSync(envDir)
+	// незавершенные деплои не считаются существующими билдами
+	const existingBuilds = getExistingBuildVersions(envDir).filter((item) => !reservedBuilds.includes(item))
 
-	const existingBuilds = fse
-		.readdirSync(envDir)
-		.filter((item) => isEmptyDir(path.join(envDir, item)) === false)
-		.map((item) => parseInt(item))
-		.filter((item) => Number.isInteger(item))
-		.sort((a, b) => a - b)
+	const nextBuild = Math.max(0, ...existingBuilds, ...reservedBuilds) + 1
+
+	const build = c.req.param('version') === 'next' ? nextBuild : parseInt(c.req.param('version'))
+
+	if (!Number.isInteger(build) || build <= 0) {
+		return c.json({ message: 'invalid version, must be a positive integer or `next`' }, 400)
+	}
+
+	const buildDir = path.join(envDir, build.toString())
 
-	if (existingBuilds.includes(build)) {
+	if (existingBuilds.includes(build) || reservedBuilds.includes(build)) {
 		return c.json(
 			{
 				message: `version #${build} already exists`,
-				newBuildVersion: existingBuilds.at(-1)! + 1,
+				newBuildVersion: nextBuild,
 				builds: existingBuilds,
 			},
 			400,
@@ -162,91 +266,283 @@ app.get('/preDeploy/:game/:env/:version', (c) => {
 
 	const lastBuildVersion = existingBuilds.at(-1)
 	if (lastBuildVersion) {
-		fse.copySync(path.join(envDir, lastBuildVersion.toString()), buildDir)
+		// files of the previous build are hardlinked from the object store instead of being copied
+		const lastBuildDir = path.join(envDir, lastBuildVersion.toString())
+		ingestDir(lastBuildDir)
+		linkDir(lastBuildDir, buildDir)
 	} else {
 		fse.ensureDirSync(buildDir)
 	}
 
+	const pendingDeploy = addPendingDeploy(game, env, build, c.get('identity'))
+
 	return c.json({
 		newBuildVersion: build,
 		newBuildDir: buildDir.replace(ENV.GAME_BUILDS_DIR, ENV.GAME_BUILDS_DIR_HOST),
 		builds: existingBuilds,
+		expiresAt: getPendingDeployExpiresAt(pendingDeploy),
 	})
 })
 
-// колбек после успешного деплоя нового билда в конкретное окружение
-app.get('/postDeploy/:game/:env/:version', (c) => {
+// согласование дельты: CI присылает список файлов с sha256 хешами, сервер собирает билд из уже известных ему файлов
+// и возвращает список файлов (`missing`), которые нужно загрузить в `newBuildDir` (rsync или /upload?clean=false)
+app.post('/preDeploy/:game/:env/:version/delta', deployLock, async (c) => {
 	const game = c.req.param('game')
 
-	const gameDir = path.join(ENV.GAME_BUILDS_DIR, game)
+	const env = c.req.param('env')
+
+	const version = c.req.param('version')
 
-	const env = c.req.param('env')!
+	const buildDir = path.join(ENV.GAME_BUILDS_DIR, game, env, version)
 
-	const envDir = path.join(gameDir, env)
+	if (!fse.existsSync(buildDir)) {
+		return c.json({ message: `build directory '${buildDir}' doesn't exist, call /preDeploy first` }, 404)
+	}
+
+	// files missing from the manifest are removed, so a deployed (maybe live) build must not be touched
+	if (!isPendingDeploy(game, env, parseInt(version))) {
+		return c.json({ message: `build #${version} is already deployed, call /preDeploy for a new version` }, 400)
+	}
+
+	const body = await c.req.json().catch(() => null)
+
+	const manifestResult = deltaManifestSchema.safeParse(body)
+	if (!manifestResult.success) {
+		return c.json({ message: `manifest is invalid`, errors: manifestResult.error.errors }, 400)
+	}
+
+	const { linked, missing, removed } = applyDeltaManifest(buildDir, manifestResult.data)
+
+	const time = toReadableDateString(Date.now(), 'ms')
+	console.log(
+		`[${time}] Assembled ${path.relative(ENV.GAME_BUILDS_DIR, buildDir)} from delta: ${linked.length} linked, ${missing.length} missing, ${removed.length} removed`,
+	)
+
+	return c.json({
+		newBuildDir: buildDir.replace(ENV.GAME_BUILDS_DIR, ENV.GAME_BUILDS_DIR_HOST),
+		missing,
+		linkedNum: linked.length,
+		removedNum: removed.length,
+	})
+})
+
+// колбек после успешного деплоя нового билда в конкретное окружение
+app.get('/postDeploy/:game/:env/:version', deployLock, (c) => {
+	const game = c.req.param('game')
+
+	const env = c.req.param('env')
 
 	const deployedBuildVersion = c.req.param('version')
 
-	if (deployedBuildVersion === undefined) {
-		return c.json({ message: `build #${deployedBuildVersion} doesn't exist` }, 404)
+	return c.json(finalizeDeployment(game, env, deployedBuildVersion, c.get('identity')))
+})
+
+// загрузка билда архивом (zip, tar или tar.gz) по HTTP, альтернатива rsync в `newBuildDir`
+// после распаковки выполняются те же проверки, что и в /postDeploy
+app.post('/upload/:game/:env/:version', deployLock, async (c) => {
+	const game = c.req.param('game')
+
+	const env = c.req.param('env')
+
+	const version = c.req.param('version')
+
+	const buildDir = path.join(ENV.GAME_BUILDS_DIR, game, env, version)
+
+	if (!fse.existsSync(buildDir)) {
+		return c.json({ message: `build directory '${buildDir}' doesn't exist, call /preDeploy first` }, 404)
 	}
 
-	const deployedBuildDir = path.join(envDir, deployedBuildVersion.toString())
+	// the archive replaces the build dir contents, so a deployed (maybe live) build must not be touched
+	if (!isPendingDeploy(game, env, parseInt(version))) {
+		return c.json({ message: `build #${version} is already deployed, call /preDeploy for a new version` }, 400)
+	}
 
-	if (!fse.existsSync(deployedBuildDir)) {	
-		return c.json({ message: `build directory '${deployedBuildDir}' doesn't exist` }, 404)
+	const body = c.req.raw.body
+	if (!body) {
+		return c.json({ message: `request body is empty, expected zip, tar or tar.gz archive` }, 400)
 	}
 
-	// ensure that the build_info.json is present
-	if (!fse.existsSync(path.join(deployedBuildDir, 'build_info.json'))) {
-		return c.json({ message: `build '${deployedBuildVersion}' doesn't have build_info.json` }, 404)
+	// by default the archive replaces the build dir contents (copy of the previous build made by /preDeploy)
+	const clean = c.req.query('clean') !== 'false'
+
+	const archivePath = await saveBodyToFile(body, getStateDir('uploads'))
+
+	try {
+		return c.json(await deployArchive(game, env, version, archivePath, c.get('identity'), { clean }))
+	} finally {
+		fse.rmSync(archivePath, { force: true })
 	}
+})
 
-	// ensure that the index.html is present
-	if (!fse.existsSync(path.join(deployedBuildDir, 'index.html'))) {
-		return c.json({ message: `build '${deployedBuildVersion}' doesn't have index.html` }, 404)
+// загрузка билда по частям с возможностью докачки
+// начинает новую сессию загрузки или возвращает незавершенную сессию для этого же билда
+app.post('/uploads/:game/:env/:version', async (c) => {
+	const game = c.req.param('game')
+
+	const env = c.req.param('env')
+
+	const version = c.req.param('version')
+
+	const buildDir = path.join(ENV.GAME_BUILDS_DIR, game, env, version)
+
+	if (!fse.existsSync(buildDir)) {
+		return c.json({ message: `build directory '${buildDir}' doesn't exist, call /preDeploy first` }, 404)
 	}
 
-	const buildInfoPath = path.join(deployedBuildDir, 'build_info.json')
-	const buildInfo = fse.existsSync(buildInfoPath) ? (fse.readJsonSync(buildInfoPath) as BuildInfo) : null
-	if (!buildInfo) {
-		return c.json({ message: `build info file '${deployedBuildDir}/build_info.json' is missing` }, 404)
+	const body = (await c.req.json().catch(() => ({}))) as { totalChunks?: unknown }
+
+	const totalChunks = body.totalChunks === undefined ? null : Number(body.totalChunks)
+	if (totalChunks !== null && (!Number.isInteger(totalChunks) || totalChunks <= 0)) {
+		return c.json({ message: 'invalid totalChunks, must be a positive integer' }, 400)
 	}
 
-	const buildInfoResult = buildInfoSchema.safeParse(buildInfo)
-	if (!buildInfoResult.success) {
-		return c.json({ message: `build info file is invalid`, errors: buildInfoResult.error.errors }, 400)
+	removeAbandonedUploadSessions(ENV.UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000)
+
+	const { session, resumed } = startUploadSession(game, env, version, totalChunks)
+
+	return c.json({
+		...session,
+		resumed,
+		receivedChunks: getReceivedChunks(session.id),
+	})
+})
+
+// инфо о сессии загрузки: какие части уже получены, а какие нет
+app.get('/uploads/:id', (c) => {
+	const session = getUploadSession(c.req.param('id'))
+
+	return c.json({
+		...session,
+		receivedChunks: getReceivedChunks(session.id),
+		missingChunks: getMissingChunks(session),
+	})
+})
+
+// загрузка одной части, повторная загрузка части с тем же номером заменяет ее
+app.put('/uploads/:id/chunks/:index', async (c) => {
+	const session = getUploadSession(c.req.param('id'))
+
+	const index = Number(c.req.param('index'))
+	if (!Number.isInteger(index) || index < 0) {
+		return c.json({ message: 'invalid chunk index, must be a non-negative integer' }, 400)
 	}
 
-	let symlinkPath = path.join(envDir, 'latest')
-	fse.rmSync(symlinkPath, { force: true })
-	fse.symlinkSync(path.relative(envDir, deployedBuildDir), symlinkPath)
+	const body = c.req.raw.body
+	if (!body) {
+		return c.json({ message: `request body is empty` }, 400)
+	}
 
-	const time = toReadableDateString(Date.now(), 'ms')
-	console.log(
-		`[${time}] Created symlink: ${path.relative(ENV.GAME_BUILDS_DIR, symlinkPath)} -> ${path.relative(ENV.GAME_BUILDS_DIR, deployedBuildDir)}`,
-	)
+	await saveChunk(session, index, body)
 
-	// Update modified date for deployed build dir
-	const currentTime = new Date()
-	try {
-		fse.utimesSync(deployedBuildDir, currentTime, currentTime)
-		console.log(
-			`[${time}] Updated modified date for ${path.relative(ENV.GAME_BUILDS_DIR, deployedBuildDir)} to ${toReadableDateString(currentTime.getTime())}`,
-		)
-	} catch (error) {
-		console.error(
-			`[${time}] Failed to update modified date for ${path.relative(ENV.GAME_BUILDS_DIR, deployedBuildDir)}:`,
-			error,
+	return c.json({
+		id: session.id,
+		index,
+		receivedChunks: getReceivedChunks(session.id),
+	})
+})
+
+// завершение загрузки: части склеиваются в архив, который распаковывается и проверяется так же, как в /postDeploy
+app.post('/uploads/:id/finalize', uploadSessionLock, async (c) => {
+	const session = getUploadSession(c.req.param('id'))
+
+	const archivePath = await assembleChunks(session)
+
+	const clean = c.req.query('clean') !== 'false'
+
+	const result = await deployArchive(session.game, session.env, session.version, archivePath, c.get('identity'), {
+		clean,
+	})
+
+	removeUploadSession(session.id)
+
+	return c.json(result)
+})
+
+// отмена загрузки
+// под той же блокировкой, что и завершение, чтобы не удалить части, которые сейчас склеиваются
+app.delete('/uploads/:id', uploadSessionLock, (c) => {
+	const session = getUploadSession(c.req.param('id'))
+
+	removeUploadSession(session.id)
+
+	return c.json({ id: session.id, removed: true })
+})
+
+// перенос билда из одного окружения в другое без пересборки (например, develop -> staging)
+// файлы не копируются, а хардлинкаются из хранилища объектов, в build_info.json записывается исходный билд
+app.get('/promote/:game/:srcEnv/:version/:dstEnv/:newVersion?', promoteLock, async (c) => {
+	const game = c.req.param('game')
+
+	const srcEnv = c.req.param('srcEnv')
+
+	const version = c.req.param('version')
+
+	const dstEnv = c.req.param('dstEnv')
+
+	if (srcEnv === dstEnv) {
+		return c.json({ message: `source and destination environments must be different` }, 400)
+	}
+
+	const srcBuildKey = createBuildKey(srcEnv, version)
+	if (!isBuildKey(srcBuildKey)) {
+		return c.json({ message: `invalid build key: ${srcBuildKey}` }, 400)
+	}
+
+	const dstEnvDir = path.join(ENV.GAME_BUILDS_DIR, game, dstEnv)
+
+	fse.ensureDirSync(dstEnvDir)
+
+	const existingBuilds = getExistingBuildVersions(dstEnvDir)
+
+	const reservedBuilds = getPendingDeploys(game, dstEnv).map((item) => item.version)
+
+	const nextBuild = Math.max(0, ...existingBuilds, ...reservedBuilds) + 1
+
+	const newVersion = c.req.param('newVersion') ? parseInt(c.req.param('newVersion')!) : nextBuild
+
+	if (!Number.isInteger(newVersion) || newVersion <= 0) {
+		return c.json({ message: 'invalid new version, must be a positive integer' }, 400)
+	}
+
+	if (existingBuilds.includes(newVersion) || reservedBuilds.includes(newVersion)) {
+		return c.json(
+			{
+				message: `version #${newVersion} already exists in environment '${dstEnv}'`,
+				newBuildVersion: nextBuild,
+				builds: existingBuilds,
+			},
+			400,
 		)
 	}
 
-	const removedPaths = removeOldDeployments(envDir, { buildsNumToKeep: 10 })
-	console.log(`[${time}] Removed ${removedPaths.length} deployments: ${removedPaths.join(', ')}`)
+	// source build must not be removed by a deploy to the source environment while it is being linked
+	return withLock(getDeployLockKey(game, srcEnv), `promote to ${dstEnv}`, {}, () => {
+		const srcBuildDir = path.join(ENV.GAME_BUILDS_DIR, game, srcEnv, version)
 
-	return c.json({
-		buildVersion: deployedBuildVersion,
-		buildDir: path.relative(ENV.GAME_BUILDS_DIR, deployedBuildDir),
-		buildDirAlias: path.relative(ENV.GAME_BUILDS_DIR, symlinkPath),
+		// pending build dir already has build_info.json and index.html of the previous build, so it passes the validation
+		if (isPendingDeploy(game, srcEnv, parseInt(version))) {
+			return c.json({ message: `build ${srcBuildKey} is not deployed yet (/postDeploy wasn't called)` }, 400)
+		}
+
+		const buildInfo = validateDeployment(srcBuildDir, version)
+
+		const dstBuildDir = path.join(dstEnvDir, newVersion.toString())
+
+		try {
+			ingestDir(srcBuildDir)
+			linkDir(srcBuildDir, dstBuildDir)
+
+			// build_info.json is a hardlink to the object shared with the source build, so it is replaced, not modified
+			writeJsonAtomic(path.join(dstBuildDir, 'build_info.json'), { ...buildInfo, promotedFrom: srcBuildKey })
+
+			return c.json({
+				...finalizeDeployment(game, dstEnv, newVersion.toString(), c.get('identity')),
+				promotedFrom: srcBuildKey,
+			})
+		} catch (error) {
+			fse.rmSync(dstBuildDir, { recursive: true, force: true })
+			throw error
+		}
 	})
 })
 
@@ -264,18 +560,25 @@ app.get('/deployments/:game/:env', (c) => {
 		return c.json({ message: `environment '${env}' doesn't exist` }, 404)
 	}
 
+	const pins = getDeploymentPins(game, env)
+
+	const deployDates = getDeployDates(game, env)
+
+	const pendingBuilds = getPendingDeploys(game, env).map((item) => item.version)
+
 	const existingBuilds = fse
 		.readdirSync(envDir)
 		.filter(
 			(buildVersionStr) =>
 				Number.isInteger(parseInt(buildVersionStr)) &&
+				!pendingBuilds.includes(parseInt(buildVersionStr)) &&
 				fse.statSync(path.join(envDir, buildVersionStr)).isDirectory() &&
 				fse.existsSync(path.join(envDir, buildVersionStr, 'build_info.json')),
 		)
 		.sort((a, b) => parseInt(b) - parseInt(a))
 		.reduce((acc, version) => {
+			const pin = pins[version]
 			const dirpath = path.join(envDir, version)
-			const modifiedAt = fse.statSync(dirpath).mtime
 			const buildInfo = fse.readJsonSync(path.join(dirpath, 'build_info.json')) as BuildInfo
 
 			acc.push({
@@ -283,7 +586,9 @@ app.get('/deployments/:game/:env', (c) => {
 				gitBranch: buildInfo.gitBranch,
 				gitCommitHash: buildInfo.gitCommitHash,
 				builtAt: buildInfo.builtAt,
-				deployedAt: toReadableDateString(modifiedAt.getTime()),
+				...getBuildInfoExtras(buildInfo),
+				deployedAt: getDeployedAt(deployDates, dirpath),
+				...(pin && { pinned: pin }),
 			} as DeployInfo)
 
 			return acc
@@ -318,16 +623,19 @@ app.get('/deployments/:game/:env/current', (c) => {
 	}
 
 	try {
-		const modifiedAt = fse.statSync(currentBuildPath).mtime
 		const buildInfo = fse.readJsonSync(path.join(currentBuildPath, 'build_info.json')) as BuildInfo
 
+		const pin = getDeploymentPins(game, env)[version]
+
 		const deployInfo: DeployInfo = {
 			version: parseInt(version),
 			gitBranch: buildInfo.gitBranch,
 			gitCommitHash: buildInfo.gitCommitHash,
 			builtAt: buildInfo.builtAt,
 			builtAtReadable: buildInfo.builtAtReadable,
-			deployedAt: toReadableDateString(modifiedAt.getTime()),
+			...getBuildInfoExtras(buildInfo),
+			deployedAt: getDeployedAt(getDeployDates(game, env), currentBuildPath),
+			...(pin && { pinned: pin }),
 		}
 
 		return c.json(deployInfo)
@@ -342,6 +650,85 @@ app.get('/deployments/:game/:env/current', (c) => {
 	}
 })
 
+// история деплоев окружения (в том числе удаленных билдов), от новых к старым
+app.get('/deployments/:game/:env/history', (c) => {
+	const game = c.req.param('game')
+
+	const env = c.req.param('env')
+
+	const limit = Number(c.req.query('limit') ?? 50)
+	if (!Number.isInteger(limit) || limit <= 0) {
+		return c.json({ message: 'invalid limit, must be a positive integer' }, 400)
+	}
+
+	const offset = Number(c.req.query('offset') ?? 0)
+	if (!Number.isInteger(offset) || offset < 0) {
+		return c.json({ message: 'invalid offset, must be a non-negative integer' }, 400)
+	}
+
+	const history = readDeploymentHistory(game, env).reverse()
+
+	return c.json({
+		total: history.length,
+		offset,
+		limit,
+		entries: history.slice(offset, offset + limit),
+	})
+})
+
+// незавершенные деплои окружения: версии, для которых был вызван /preDeploy, но еще не было /postDeploy
+app.get('/deployments/:game/:env/pending', (c) => {
+	const game = c.req.param('game')
+
+	const env = c.req.param('env')
+
+	const pendingDeploys = getPendingDeploys(game, env).map((item) => ({
+		...item,
+		expiresAt: getPendingDeployExpiresAt(item),
+		buildDir: path.join(game, env, item.version.toString()),
+	}))
+
+	return c.json(pendingDeploys)
+})
+
+// отмена незавершенного деплоя, директория билда удаляется
+app.delete('/deployments/:game/:env/pending/:version', deployLock, (c) => {
+	const game = c.req.param('game')
+
+	const env = c.req.param('env')
+
+	const version = parseInt(c.req.param('version'))
+
+	const pendingDeploy = cancelPendingDeploy(game, env, version, c.get('identity'))
+	if (!pendingDeploy) {
+		return c.json({ message: `build #${c.req.param('version')} is not pending in environment '${env}'` }, 404)
+	}
+
+	return c.json({ ...pendingDeploy, canceled: true })
+})
+
+// сравнение файлов двух задеплоенных билдов, например, `/deployments/my-game/develop/811..812`
+app.get('/deployments/:game/:env/:range{[0-9]+\\.\\.[0-9]+}', (c) => {
+	const game = c.req.param('game')
+
+	const env = c.req.param('env')
+
+	const [from, to] = c.req.param('range').split('..')
+
+	const pendingBuilds = getPendingDeploys(game, env).map((item) => item.version.toString())
+
+	for (const version of [from, to]) {
+		const buildDir = path.join(ENV.GAME_BUILDS_DIR, game, env, version)
+		if (!fse.existsSync(buildDir) || pendingBuilds.includes(version)) {
+			return c.json({ message: `build #${version} doesn't exist in environment '${env}'` }, 404)
+		}
+	}
+
+	const diff = diffBuildFiles(getDeploymentFiles(game, env, from), getDeploymentFiles(game, env, to))
+
+	return c.json({ from: parseInt(from), to: parseInt(to), ...diff })
+})
+
 // инфо о конкретном задеплоенном билде
 app.get('/deployments/:game/:env/:version', (c) => {
 	const game = c.req.param('game')
@@ -360,7 +747,6 @@ app.get('/deployments/:game/:env/:version', (c) => {
 	}
 
 	try {
-		const modifiedAt = fse.statSync(buildDir).mtime
 		const buildInfo = fse.readJsonSync(path.join(buildDir, 'build_info.json')) as BuildInfo
 
 		// Check if this is the current deployment
@@ -372,13 +758,17 @@ app.get('/deployments/:game/:env/:version', (c) => {
 			isCurrent = currentBuildPath === buildDir
 		}
 
+		const pin = getDeploymentPins(game, env)[version]
+
 		const deployInfo: DeployInfo & { isCurrent: boolean } = {
 			version: parseInt(version),
 			gitBranch: buildInfo.gitBranch,
 			gitCommitHash: buildInfo.gitCommitHash,
 			builtAt: buildInfo.builtAt,
 			builtAtReadable: buildInfo.builtAtReadable,
-			deployedAt: toReadableDateString(modifiedAt.getTime()),
+			...getBuildInfoExtras(buildInfo),
+			deployedAt: getDeployedAt(getDeployDates(game, env), buildDir),
+			...(pin && { pinned: pin }),
 			isCurrent,
 		}
 
@@ -394,49 +784,158 @@ app.get('/deployments/:game/:env/:version', (c) => {
 	}
 })
 
-// инфо о всех релизах для указанной игры и платформы
-app.get('/releases/:game/:platform', (c) => {
+// закрепление билда, чтобы он не был удален при очистке старых билдов
+app.post('/deployments/:game/:env/:version/pin', deployLock, async (c) => {
 	const game = c.req.param('game')
 
-	const gameDir = path.join(ENV.GAME_BUILDS_DIR, game)
+	const env = c.req.param('env')
 
-	const platform = c.req.param('platform')
+	const version = c.req.param('version')
 
-	// директория с релизами для указанной платформы
-	const releasesDir = path.join(gameDir, 'prod', platform)
-	if (!fse.existsSync(releasesDir)) {
-		const emptyReleases: Releases = {
-			current: null,
-			builds: [],
-		}
+	const buildDir = path.join(ENV.GAME_BUILDS_DIR, game, env, version)
+	if (!Number.isInteger(parseInt(version)) || !fse.existsSync(buildDir)) {
+		return c.json({ message: `build #${version} doesn't exist in environment '${env}'` }, 404)
+	}
 
-		return c.json(emptyReleases)
+	if (isPendingDeploy(game, env, parseInt(version))) {
+		return c.json({ message: `build #${version} is not deployed yet (/postDeploy wasn't called)` }, 400)
 	}
 
-	const releasesJsonPath = path.join(releasesDir, 'releases.json')
-	if (!fse.existsSync(releasesJsonPath)) {
-		const emptyReleases: Releases = {
-			current: null,
-			builds: [],
-		}
+	const body = await c.req.json().catch(() => null)
 
-		return c.json(emptyReleases)
+	const pinResult = pinRequestSchema.safeParse(body)
+	if (!pinResult.success) {
+		return c.json({ message: `pin request is invalid`, errors: pinResult.error.errors }, 400)
 	}
 
-	const releases = fse.readJsonSync(releasesJsonPath) as Releases
+	const pin = createPin(pinResult.data.reason, c.get('identity'))
 
-	return c.json(releases)
+	pinDeployment(game, env, version, pin)
+
+	return c.json({ version: parseInt(version), pinned: pin })
 })
 
-// инфо о текущем релизе
-app.get('/releases/:game/:platform/current', (c) => {
+app.delete('/deployments/:game/:env/:version/pin', deployLock, (c) => {
 	const game = c.req.param('game')
 
-	const gameDir = path.join(ENV.GAME_BUILDS_DIR, game)
+	const env = c.req.param('env')
+
+	const version = c.req.param('version')
+
+	const pin = unpinDeployment(game, env, version)
+	if (!pin) {
+		return c.json({ message: `build #${version} is not pinned in environment '${env}'` }, 404)
+	}
+
+	return c.json({ version: parseInt(version), unpinned: pin })
+})
+
+// откат окружения к одному из прошлых билдов (переключение симлинка `latest`)
+// без указания версии откатывается к билду, который был задеплоен перед текущим
+app.get('/rollbackDeployment/:game/:env/:version?', deployLock, (c) => {
+	const game = c.req.param('game')
+
+	const env = c.req.param('env')
+
+	const envDir = path.join(ENV.GAME_BUILDS_DIR, game, env)
+
+	if (!fse.existsSync(envDir)) {
+		return c.json({ message: `environment '${env}' doesn't exist` }, 404)
+	}
+
+	const latestSymlinkPath = path.join(envDir, 'latest')
+	const currentVersion = fse.existsSync(latestSymlinkPath)
+		? path.basename(fse.realpathSync(latestSymlinkPath))
+		: undefined
+
+	const version = c.req.param('version') || getPreviousDeploymentVersion(game, env, currentVersion)
+
+	if (!version) {
+		return c.json({ message: `there are no previous deployments` }, 400)
+	}
+
+	if (!Number.isInteger(parseInt(version))) {
+		return c.json({ message: `invalid build version: ${version}` }, 400)
+	}
+
+	if (version === currentVersion) {
+		return c.json({ message: `build #${version} is current deployment` }, 400)
+	}
+
+	const buildDir = path.join(envDir, version)
+
+	// pending build dir already has build_info.json and index.html of the previous build, so it passes the validation
+	if (isPendingDeploy(game, env, parseInt(version))) {
+		return c.json({ message: `build #${version} is not deployed yet (/postDeploy wasn't called)` }, 400)
+	}
+
+	const buildInfo = validateDeployment(buildDir, version)
+
+	const symlinkPath = updateLatestSymlink(envDir, buildDir)
+
+	appendDeploymentHistory(game, env, {
+		type: 'rollback',
+		version: parseInt(version),
+		identity: c.get('identity'),
+		buildInfo,
+	})
+
+	const time = toReadableDateString(Date.now(), 'ms')
+	console.log(
+		`[${time}] Rolled back ${path.relative(ENV.GAME_BUILDS_DIR, envDir)} from #${currentVersion} to #${version}`,
+	)
+
+	return c.json({
+		buildVersion: version,
+		previousBuildVersion: currentVersion ?? null,
+		buildDir: path.relative(ENV.GAME_BUILDS_DIR, buildDir),
+		buildDirAlias: path.relative(ENV.GAME_BUILDS_DIR, symlinkPath),
+	})
+})
+
+// инфо о всех релизах для указанной игры и платформы
+app.get('/releases/:game/:platform', (c) => {
+	const game = c.req.param('game')
+
+	const platform = c.req.param('platform')
+
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	// директория с релизами для указанной платформы
+	const releasesDir = getReleasesDir(game, platform, channel)
+	if (!fse.existsSync(releasesDir)) {
+		const emptyReleases: Releases = {
+			current: null,
+			builds: [],
+		}
+
+		return c.json({ ...emptyReleases, ...getFreezesInfo(game, platform) })
+	}
+
+	const releasesJsonPath = path.join(releasesDir, 'releases.json')
+	if (!fse.existsSync(releasesJsonPath)) {
+		const emptyReleases: Releases = {
+			current: null,
+			builds: [],
+		}
+
+		return c.json({ ...emptyReleases, ...getFreezesInfo(game, platform) })
+	}
+
+	const releases = fse.readJsonSync(releasesJsonPath) as Releases
+
+	return c.json({ ...releases, ...getFreezesInfo(game, platform) })
+})
+
+// инфо о текущем релизе
+app.get('/releases/:game/:platform/current', (c) => {
+	const game = c.req.param('game')
 
 	const platform = c.req.param('platform')
 
-	const releasesDir = path.join(gameDir, `prod`, platform)
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const releasesDir = getReleasesDir(game, platform, channel)
 	if (!fse.existsSync(releasesDir)) {
 		return c.json({ message: `platform '${platform}' doesn't exist` }, 404)
 	}
@@ -451,15 +950,80 @@ app.get('/releases/:game/:platform/current', (c) => {
 	return c.json(releases.builds.find((item) => item.key === releases.current))
 })
 
+// история публикаций и откатов платформы (в том числе отложенных), от новых к старым
+app.get('/releases/:game/:platform/history', (c) => {
+	const game = c.req.param('game')
+
+	const platform = c.req.param('platform')
+
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const limit = Number(c.req.query('limit') ?? 50)
+	if (!Number.isInteger(limit) || limit <= 0) {
+		return c.json({ message: 'invalid limit, must be a positive integer' }, 400)
+	}
+
+	const offset = Number(c.req.query('offset') ?? 0)
+	if (!Number.isInteger(offset) || offset < 0) {
+		return c.json({ message: 'invalid offset, must be a non-negative integer' }, 400)
+	}
+
+	const history = readReleaseHistory(game, platform, channel).reverse()
+
+	return c.json({
+		total: history.length,
+		offset,
+		limit,
+		entries: history.slice(offset, offset + limit),
+	})
+})
+
+// сравнение файлов двух релизов, например, `/releases/my-game/web/master-11..master-12`
+app.get('/releases/:game/:platform/:range{[a-zA-Z0-9_-]+-[0-9]+\\.\\.[a-zA-Z0-9_-]+-[0-9]+}', (c) => {
+	const game = c.req.param('game')
+
+	const platform = c.req.param('platform')
+
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const releasesDir = getReleasesDir(game, platform, channel)
+
+	const releasesJsonPath = path.join(releasesDir, 'releases.json')
+	if (!fse.existsSync(releasesJsonPath)) {
+		return c.json({ message: `there are no published builds for platform '${platform}'` }, 404)
+	}
+
+	const releases = fse.readJsonSync(releasesJsonPath) as Releases
+
+	const [fromKey, toKey] = c.req.param('range').split('..')
+
+	const fromRelease = releases.builds.find((item) => item.key === fromKey)
+	if (!fromRelease) {
+		return c.json({ message: `release '${fromKey}' doesn't exist` }, 404)
+	}
+
+	const toRelease = releases.builds.find((item) => item.key === toKey)
+	if (!toRelease) {
+		return c.json({ message: `release '${toKey}' doesn't exist` }, 404)
+	}
+
+	const getFiles = (release: ReleaseInfo) =>
+		getReleaseFiles(releasesDir, release.key, fse.readJsonSync(path.join(releasesDir, release.files)))
+
+	const diff = diffBuildFiles(getFiles(fromRelease), getFiles(toRelease))
+
+	return c.json({ from: fromKey, to: toKey, ...diff })
+})
+
 // инфо о конкретном релизе, например, `master-11`
 app.get('/releases/:game/:platform/:buildKey', (c) => {
 	const game = c.req.param('game')
 
-	const gameDir = path.join(ENV.GAME_BUILDS_DIR, game)
-
 	const platform = c.req.param('platform')
 
-	const releasesDir = path.join(gameDir, `prod`, platform)
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const releasesDir = getReleasesDir(game, platform, channel)
 	if (!fse.existsSync(releasesDir)) {
 		return c.json({ message: `platform '${platform}' doesn't exist` }, 404)
 	}
@@ -489,15 +1053,171 @@ app.get('/releases/:game/:platform/:buildKey', (c) => {
 	})
 })
 
+// закрепление релиза, чтобы он не был удален при очистке старых релизов
+app.post('/releases/:game/:platform/:buildKey/pin', releaseLock, async (c) => {
+	const game = c.req.param('game')
+
+	const platform = c.req.param('platform')
+
+	const buildKey = c.req.param('buildKey')
+
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const releasesJsonPath = path.join(getReleasesDir(game, platform, channel), 'releases.json')
+	const releases: Releases | null = fse.existsSync(releasesJsonPath) ? fse.readJsonSync(releasesJsonPath) : null
+
+	const release = releases?.builds.find((item) => item.key === buildKey)
+	if (!releases || !release) {
+		return c.json({ message: `release '${buildKey}' doesn't exist` }, 404)
+	}
+
+	const body = await c.req.json().catch(() => null)
+
+	const pinResult = pinRequestSchema.safeParse(body)
+	if (!pinResult.success) {
+		return c.json({ message: `pin request is invalid`, errors: pinResult.error.errors }, 400)
+	}
+
+	release.pinned = createPin(pinResult.data.reason, c.get('identity'))
+
+	writeJsonAtomic(releasesJsonPath, releases)
+
+	return c.json(release)
+})
+
+app.delete('/releases/:game/:platform/:buildKey/pin', releaseLock, (c) => {
+	const game = c.req.param('game')
+
+	const platform = c.req.param('platform')
+
+	const buildKey = c.req.param('buildKey')
+
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const releasesJsonPath = path.join(getReleasesDir(game, platform, channel), 'releases.json')
+	const releases: Releases | null = fse.existsSync(releasesJsonPath) ? fse.readJsonSync(releasesJsonPath) : null
+
+	const release = releases?.builds.find((item) => item.key === buildKey)
+	if (!releases || !release) {
+		return c.json({ message: `release '${buildKey}' doesn't exist` }, 404)
+	}
+
+	if (!release.pinned) {
+		return c.json({ message: `release '${buildKey}' is not pinned` }, 404)
+	}
+
+	delete release.pinned
+
+	writeJsonAtomic(releasesJsonPath, releases)
+
+	return c.json(release)
+})
+
+// удаление релиза вместе с его файлами, например, если в билде нашли критический баг
+// текущий релиз можно удалить, только указав релиз для отката: `{ "rollbackTo": "master-41" }`
+app.post('/releases/:game/:platform/:buildKey/yank', releaseLock, async (c) => {
+	const game = c.req.param('game')
+
+	const platform = c.req.param('platform')
+
+	const buildKey = c.req.param('buildKey')
+
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const releasesDir = getReleasesDir(game, platform, channel)
+
+	const releasesJsonPath = path.join(releasesDir, 'releases.json')
+	const releases: Releases | null = fse.existsSync(releasesJsonPath) ? fse.readJsonSync(releasesJsonPath) : null
+
+	const release = releases?.builds.find((item) => item.key === buildKey)
+	if (!releases || !release) {
+		return c.json({ message: `release '${buildKey}' doesn't exist` }, 404)
+	}
+
+	// body is optional
+	const body = await c.req.json().catch(() => ({}))
+
+	const yankResult = yankRequestSchema.safeParse(body)
+	if (!yankResult.success) {
+		return c.json({ message: `yank request is invalid`, errors: yankResult.error.errors }, 400)
+	}
+
+	const { reason, rollbackTo } = yankResult.data
+
+	if (releases.rollout) {
+		return c.json(
+			{ message: `rollout of '${releases.rollout.candidate}' is in progress, complete or abort it first` },
+			400,
+		)
+	}
+
+	if (release.pinned) {
+		return c.json({ message: `release '${buildKey}' is pinned, unpin it first` }, 400)
+	}
+
+	if (releases.current !== buildKey && rollbackTo) {
+		return c.json({ message: `rollbackTo can be set only when the current release is yanked` }, 400)
+	}
+
+	let rolledBackTo: ReleaseInfo | undefined
+	if (releases.current === buildKey) {
+		if (!rollbackTo) {
+			return c.json(
+				{
+					message: `'${buildKey}' is the current release, set rollbackTo to choose the release to roll back to`,
+					previous: getPreviousReleaseBuildKey(releasesDir) ?? null,
+				},
+				400,
+			)
+		}
+
+		rolledBackTo = releases.builds.find((item) => item.key === rollbackTo && item.key !== buildKey)
+		if (!rolledBackTo) {
+			return c.json({ message: `release '${rollbackTo}' doesn't exist` }, 404)
+		}
+
+		const overriddenFreezes = checkFreezes(game, platform, 'rollback', getFreezeOverride(c))
+
+		releases.current = rolledBackTo.key
+		writeJsonAtomic(releasesJsonPath, releases)
+
+		updateIndexHtmlSymlink(releasesDir, rolledBackTo.key)
+
+		appendReleaseHistory(game, platform, channel, {
+			type: 'rollback',
+			buildKey: rolledBackTo.key,
+			identity: c.get('identity'),
+			overriddenFreezes,
+		})
+	}
+
+	const removedFiles = yankRelease(releasesDir, releases, release, { reason, identity: c.get('identity') })
+
+	appendReleaseHistory(game, platform, channel, {
+		type: 'yank',
+		buildKey,
+		identity: c.get('identity'),
+	})
+
+	return c.json({
+		channel,
+		yanked: releases.yanked?.find((item) => item.key === buildKey),
+		removedFiles,
+		...(rolledBackTo && { rolledBackTo }),
+	})
+})
+
 // публикация нового билда
-app.get('/publish/:game/:platform/:buildKey?', async (c) => {
+app.get('/publish/:game/:platform/:buildKey?', releaseLock, async (c) => {
 	const game = c.req.param('game')
 
 	const gameDir = path.join(ENV.GAME_BUILDS_DIR, game)
 
 	const platform = c.req.param('platform')
 
-	let buildKey = c.req.param('buildKey') || getLatestBuildKey(gameDir, 'master') || getLatestBuildKey(gameDir, 'main')
+	const requestedBuildKey = c.req.param('buildKey')
+
+	let buildKey = requestedBuildKey || getLatestBuildKey(game, 'master') || getLatestBuildKey(game, 'main')
 
 	if (!buildKey) {
 		return c.json({ message: `build doesn't exist` }, 400)
@@ -507,7 +1227,11 @@ app.get('/publish/:game/:platform/:buildKey?', async (c) => {
 		return c.json({ message: `invalid build key: ${buildKey}` }, 400)
 	}
 
-	let releasesJsonPath = path.join(gameDir, `prod/${platform}/releases.json`)
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	let destDir = getReleasesDir(game, platform, channel)
+
+	let releasesJsonPath = path.join(destDir, 'releases.json')
 	let releases: Releases = fse.existsSync(releasesJsonPath)
 		? fse.readJsonSync(releasesJsonPath)
 		: {
@@ -520,6 +1244,41 @@ app.get('/publish/:game/:platform/:buildKey?', async (c) => {
 		return c.json({ message: `'${buildKey}' was already released at ${existingRelease.releasedAt}` }, 400)
 	}
 
+	// `?force=true` publishes a yanked build again
+	const force = c.req.query('force') === 'true'
+	const yankedRelease = releases.yanked?.find((item) => item.key === buildKey)
+	if (yankedRelease && !force) {
+		return c.json(
+			{
+				message: `'${buildKey}' was yanked at ${yankedRelease.yankedAt}, add ?force=true to publish it again`,
+				yanked: yankedRelease,
+			},
+			400,
+		)
+	}
+
+	if (releases.rollout) {
+		return c.json(
+			{ message: `rollout of '${releases.rollout.candidate}' is in progress, complete or abort it first` },
+			400,
+		)
+	}
+
+	// `?rollout=<percentage>` publishes the build as the candidate of a staged rollout
+	let rollout: { percentage: number; identity: string } | undefined
+	if (c.req.query('rollout') !== undefined) {
+		const percentageResult = rolloutPercentageSchema.safeParse(c.req.query('rollout'))
+		if (!percentageResult.success) {
+			return c.json({ message: `rollout percentage is invalid`, errors: percentageResult.error.errors }, 400)
+		}
+
+		if (!releases.current) {
+			return c.json({ message: `platform '${platform}' doesn't have a current release to roll out from` }, 400)
+		}
+
+		rollout = { percentage: percentageResult.data, identity: c.get('identity') }
+	}
+
 	const { env, version } = parseBuildKey(buildKey)
 
 	let srcDir = path.join(gameDir, env, version.toString())
@@ -528,6 +1287,10 @@ app.get('/publish/:game/:platform/:buildKey?', async (c) => {
 		return c.json({ message: `build '${buildKey}' doesn't exist` }, 404)
 	}
 
+	if (isPendingDeploy(game, env, version)) {
+		return c.json({ message: `build '${buildKey}' is not deployed yet (/postDeploy wasn't called)` }, 400)
+	}
+
 	// ensure that the build_info.json is present
 	if (!fse.existsSync(path.join(srcDir, 'build_info.json'))) {
 		return c.json({ message: `build '${buildKey}' doesn't have build_info.json` }, 404)
@@ -538,61 +1301,98 @@ app.get('/publish/:game/:platform/:buildKey?', async (c) => {
 		return c.json({ message: `build '${buildKey}' doesn't have index.html` }, 404)
 	}
 
-	let destDir = path.join(gameDir, `prod/${platform}`)
-
-	let destDirTemp = path.join(gameDir, `prod/${platform}_temp`)
-
-	// копируем билд во временную папку
-	fse.ensureDirSync(destDirTemp)
-	fse.copySync(srcDir, destDirTemp, {})
-
-	let buildInfo = fse.readJsonSync(path.join(destDirTemp, 'build_info.json')) as BuildInfo
+	verifyBuildSignature(game, srcDir, buildKey)
 
-	// build_info.json нам уже не нужен, удаляем его
-	fse.rmSync(path.join(destDirTemp, 'build_info.json'))
+	// files could be lost or changed since /postDeploy, so they are hashed again instead of using the cache
+	let srcFiles: BuildFiles | undefined
+	const getSrcFiles = () => (srcFiles ??= hashBuildFiles(srcDir))
 
-	// переименовываем index.html в index_${buildKey}.html (например, index_master-11.html)
-	fse.renameSync(path.join(destDirTemp, 'index.html'), path.join(destDirTemp, `index_${buildKey}.html`))
+	verifyBuildManifest(srcDir, buildKey, getSrcFiles, readGameConfig(game).integrity?.requireManifest ?? false)
 
-	// создаем файл files_${buildKey}.json, в котором будут перечислены все файлы билда
-	let filesJsonPath = path.join(destDirTemp, `files_${buildKey}.json`)
-	let files = globbySync(path.join(destDirTemp, '**/*'))
-	files = [filesJsonPath, ...files]
-	files = files.map((filepath) => path.relative(destDirTemp, filepath))
-	fse.outputJsonSync(path.join(destDirTemp, `files_${buildKey}.json`), files, { spaces: '\t' })
-
-	// копируем все файлы в финальную папку
-	fse.copySync(destDirTemp, destDir)
+	// dry run returns the publish plan without touching the filesystem
+	if (c.req.query('dryRun') === 'true') {
+		return c.json({
+			dryRun: true,
+			path: destDir,
+			channel,
+			buildKey,
+			resolvedFrom: requestedBuildKey ? 'request' : `latest ${env} build`,
+			...(await planPublish(destDir, buildKey, srcDir, { rollout })),
+		})
+	}
 
-	// удаляем временную папку
-	fse.rmSync(destDirTemp, { recursive: true })
+	const freezeOverride = getFreezeOverride(c)
+	const overriddenFreezes = checkFreezes(game, platform, 'publish', freezeOverride)
+
+	// publishes into channels that require approvals wait for another identity to approve them
+	const publishApproval = c.get('publishApproval')
+	if (!publishApproval && isApprovalRequired(game, channel)) {
+		const request = await createPublishRequest({
+			game,
+			platform,
+			channel,
+			buildKey,
+			rollout: rollout?.percentage,
+			force,
+			// the freeze could start before the request is approved
+			overrideFreeze: freezeOverride.requested && freezeOverride.isAdmin,
+			buildFingerprint: getBuildFingerprint(getSrcFiles()),
+			diff: createPublishRequestDiff(game, destDir, releases, buildKey),
+			requestedBy: c.get('identity'),
+		})
+
+		appendReleaseHistory(game, platform, channel, {
+			type: 'publish',
+			buildKey,
+			identity: c.get('identity'),
+			scheduledActionId: c.get('scheduledActionId'),
+			publishRequestId: request.id,
+			pending: true,
+		})
+
+		return c.json({ pending: true, channel, request }, 202)
+	}
 
-	// обновляем releases.json
-	let newRelease = createNewRelease(buildKey, buildInfo)
-	releases.current = newRelease.key
-	releases.builds.unshift(newRelease)
-	fse.outputJsonSync(releasesJsonPath, releases, { spaces: '\t' })
+	// the build could be redeployed into the same version after the request, such files were never approved
+	if (publishApproval && getBuildFingerprint(getSrcFiles()) !== publishApproval.buildFingerprint) {
+		return c.json(
+			{ message: `build '${buildKey}' changed since the publish request was created, request the publish again` },
+			409,
+		)
+	}
 
-	// @ts-expect-error
-	let removedReleases = await removeOldReleases(releasesJsonPath, { buildsNumToKeep: 5 })
+	let newRelease = await publishRelease(destDir, buildKey, srcDir, { rollout })
 
-	updateIndexHtmlSymlink(destDir, newRelease.key)
+	appendReleaseHistory(game, platform, channel, {
+		type: 'publish',
+		buildKey,
+		identity: c.get('identity'),
+		scheduledActionId: c.get('scheduledActionId'),
+		publishRequestId: publishApproval?.requestId,
+		approvedBy: publishApproval?.approvedBy,
+		overriddenFreezes,
+	})
 
 	return c.json({
 		path: destDir,
+		channel,
 		release: newRelease,
 	})
 })
 
 // откат к какому-то из прошлых релизов
-app.get('/rollback/:game/:platform/:buildKey?', async (c) => {
+app.get('/rollback/:game/:platform/:buildKey?', releaseLock, async (c) => {
 	const game = c.req.param('game')
 
 	const gameDir = path.join(ENV.GAME_BUILDS_DIR, game)
 
 	const platform = c.req.param('platform')
 
-	let buildKey = c.req.param('buildKey') || getPreviousReleaseBuildKey(gameDir, platform)
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	let releasesDir = getReleasesDir(game, platform, channel)
+
+	let buildKey = c.req.param('buildKey') || getPreviousReleaseBuildKey(releasesDir)
 
 	if (!buildKey) {
 		return c.json({ message: `there are no previous releases` }, 400)
@@ -602,10 +1402,13 @@ app.get('/rollback/:game/:platform/:buildKey?', async (c) => {
 		return c.json({ message: `invalid build key: ${buildKey}` }, 400)
 	}
 
-	let releasesDir = path.join(gameDir, `prod/${platform}`)
 	let releasesJsonPath = path.join(releasesDir, 'releases.json')
 	let releases = fse.readJsonSync(releasesJsonPath) as Releases
 
+	if (releases.rollout) {
+		return c.json({ message: `rollout of '${releases.rollout.candidate}' is in progress, abort it instead` }, 400)
+	}
+
 	if (releases.current === buildKey) {
 		return c.json({ message: `build ${buildKey} is current release` }, 400)
 	}
@@ -615,93 +1418,632 @@ app.get('/rollback/:game/:platform/:buildKey?', async (c) => {
 		return c.json({ message: `release '${buildKey}' doesn't exist` }, 404)
 	}
 
+	const overriddenFreezes = checkFreezes(game, platform, 'rollback', getFreezeOverride(c))
+
 	// update releases.json
 	releases.current = buildKey
-	fse.outputJsonSync(releasesJsonPath, releases, { spaces: '\t' })
+	writeJsonAtomic(releasesJsonPath, releases)
 
 	// update index.html symlink
 	updateIndexHtmlSymlink(releasesDir, buildKey)
 
+	appendReleaseHistory(game, platform, channel, {
+		type: 'rollback',
+		buildKey,
+		identity: c.get('identity'),
+		scheduledActionId: c.get('scheduledActionId'),
+		overriddenFreezes,
+	})
+
 	return c.json({
 		path: path.relative(gameDir, releasesDir),
+		channel,
 		release: release,
 	})
 })
 
-function isEmptyDir(dirPath: string): boolean {
-	return fse.statSync(dirPath).isDirectory() && fse.readdirSync(dirPath).length === 0
-}
+// состояние поэтапной раскатки релиза
+app.get('/rollout/:game/:platform', (c) => {
+	const game = c.req.param('game')
 
-function getLatestBuildKey(gameDir: string, env: string): BuildKey | undefined {
-	const builds = fse
-		.readdirSync(path.join(gameDir, env))
-		.filter((item) => Number.isInteger(parseInt(item)) && fse.statSync(path.join(gameDir, env, item)).isDirectory())
-		.sort((a, b) => parseInt(b) - parseInt(a))
+	const platform = c.req.param('platform')
 
-	if (builds.length === 0) {
-		return undefined
-	}
+	const channel = resolveChannel(game, c.req.query('channel'))
 
-	return createBuildKey(env, builds[0])
-}
+	const releases = readRolloutReleases(getReleasesDir(game, platform, channel))
 
-/**
- * @return {string} - key of the build that was published before the current one or undefined if there are no previous builds
- */
-function getPreviousReleaseBuildKey(gameDir: string, platform: string): BuildKey | undefined {
-	const releasesDir = path.join(gameDir, `prod/${platform}`)
-	const releasesJsonPath = path.join(releasesDir, 'releases.json')
-	if (!fse.existsSync(releasesJsonPath)) {
-		return undefined
+	return c.json({ current: releases.current, ...releases.rollout })
+})
+
+// изменение процента игроков, которые получают новый релиз
+app.put('/rollout/:game/:platform', releaseLock, async (c) => {
+	const game = c.req.param('game')
+
+	const platform = c.req.param('platform')
+
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const releasesDir = getReleasesDir(game, platform, channel)
+
+	const releases = readRolloutReleases(releasesDir)
+
+	const body = await c.req.json().catch(() => null)
+
+	const rolloutResult = rolloutRequestSchema.safeParse(body)
+	if (!rolloutResult.success) {
+		return c.json({ message: `rollout request is invalid`, errors: rolloutResult.error.errors }, 400)
 	}
 
-	const releases = fse.readJsonSync(releasesJsonPath) as Releases
+	// changing the percentage changes the release players get, so it is frozen like /publish
+	checkFreezes(game, platform, 'rollout', getFreezeOverride(c))
+
+	releases.rollout.percentage = rolloutResult.data.percentage
+	releases.rollout.updatedAt = toReadableDateString(Date.now())
+
+	writeJsonAtomic(path.join(releasesDir, 'releases.json'), releases)
+
+	writeRolloutIndexHtml(releasesDir, releases.current!, releases.rollout)
+
+	return c.json({ current: releases.current, ...releases.rollout })
+})
+
+// завершение раскатки: новый релиз становится текущим для всех игроков
+app.post('/rollout/:game/:platform/complete', releaseLock, (c) => {
+	const game = c.req.param('game')
+
+	const platform = c.req.param('platform')
+
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const releasesDir = getReleasesDir(game, platform, channel)
+
+	const releases: Releases = readRolloutReleases(releasesDir)
 
-	// sort builds by date from newest to oldest
-	const releasesSortedByDate = releases.builds.sort((a, b) => {
-		return fromReadableDateString(b.releasedAt) - fromReadableDateString(a.releasedAt)
+	checkFreezes(game, platform, 'rollout', getFreezeOverride(c))
+
+	const candidate = releases.rollout!.candidate
+
+	releases.current = candidate
+	delete releases.rollout
+
+	writeJsonAtomic(path.join(releasesDir, 'releases.json'), releases)
+
+	updateIndexHtmlSymlink(releasesDir, candidate)
+
+	return c.json({
+		channel,
+		release: releases.builds.find((item) => item.key === candidate),
 	})
+})
 
-	const currentRelease = releasesSortedByDate.find((item) => item.key === releases.current)
-	if (!currentRelease) {
-		return undefined
+// отмена раскатки: все игроки возвращаются на текущий релиз
+app.post('/rollout/:game/:platform/abort', releaseLock, (c) => {
+	const game = c.req.param('game')
+
+	const platform = c.req.param('platform')
+
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const releasesDir = getReleasesDir(game, platform, channel)
+
+	const releases: Releases = readRolloutReleases(releasesDir)
+
+	const abortedCandidate = releases.rollout!.candidate
+
+	delete releases.rollout
+
+	writeJsonAtomic(path.join(releasesDir, 'releases.json'), releases)
+
+	updateIndexHtmlSymlink(releasesDir, releases.current!)
+
+	return c.json({
+		channel,
+		abortedCandidate,
+		release: releases.builds.find((item) => item.key === releases.current),
+	})
+})
+
+// запросы на публикацию, ожидающие подтверждения
+app.get('/publishRequests/:game', (c) => {
+	const game = c.req.param('game')
+
+	const requests = getPublishRequests(game).map((item) => ({ ...item, expired: isPublishRequestExpired(item) }))
+
+	return c.json(requests)
+})
+
+// подтверждение запроса на публикацию другим пользователем, билд публикуется от имени автора запроса
+app.post('/publishRequests/:game/:id/approve', async (c) => {
+	const game = c.req.param('game')
+
+	const identity = c.get('identity')
+
+	const request = getPublishRequest(game, c.req.param('id'))
+
+	if (identity === ANONYMOUS_IDENTITY) {
+		return c.json({ message: `publish requests can't be approved without a token` }, 403)
+	}
+
+	if (identity === request.requestedBy) {
+		return c.json({ message: `publish request must be approved by someone other than '${identity}'` }, 403)
+	}
+
+	const url = new URL(`http://localhost/publish/${game}/${request.platform}/${request.buildKey}`)
+	url.searchParams.set('channel', request.channel)
+	url.searchParams.set('wait', '60')
+	if (request.rollout !== undefined) {
+		url.searchParams.set('rollout', request.rollout.toString())
+	}
+	if (request.force) {
+		url.searchParams.set('force', 'true')
+	}
+	if (request.overrideFreeze) {
+		url.searchParams.set('overrideFreeze', 'true')
+	}
+
+	const env: InternalRequestEnv = {
+		[INTERNAL_REQUEST]: {
+			identity: request.requestedBy,
+			publishApproval: {
+				requestId: request.id,
+				approvedBy: identity,
+				buildFingerprint: request.buildFingerprint,
+			},
+		},
+	}
+
+	// the request is kept if the publish fails, so it can be approved again or rejected
+	const response = await app.request(url.toString(), {}, env)
+	if (!response.ok) {
+		return response
+	}
+
+	await withLock(getPublishRequestsLockKey(game), 'approve publish request', { waitMs: 5000 }, () =>
+		removePublishRequest(game, request.id),
+	)
+
+	return c.json({ ...(await response.json()), request, approvedBy: identity })
+})
+
+// отклонение запроса на публикацию (в том числе автором запроса)
+app.post('/publishRequests/:game/:id/reject', async (c) => {
+	const game = c.req.param('game')
+
+	const id = c.req.param('id')
+
+	const request = await withLock(getPublishRequestsLockKey(game), 'reject publish request', { waitMs: 5000 }, () =>
+		removePublishRequest(game, id),
+	)
+
+	if (!request) {
+		return c.json({ message: `publish request '${id}' doesn't exist` }, 404)
 	}
 
-	const currentReleaseIndex = releasesSortedByDate.indexOf(currentRelease)
+	return c.json({ ...request, rejected: true, rejectedBy: c.get('identity') })
+})
+
+// удаление просроченных запросов на публикацию (также выполняется раз в час)
+app.post('/publishRequests/:game/expire', async (c) => {
+	const game = c.req.param('game')
+
+	const expired = await withLock(getPublishRequestsLockKey(game), 'expire publish requests', { waitMs: 5000 }, () =>
+		removeExpiredPublishRequests(game),
+	)
 
-	const previousRelease = releasesSortedByDate.at(currentReleaseIndex + 1)
+	return c.json({ expired })
+})
 
-	return previousRelease?.key
+// заморозки релизов игры (действующие и запланированные)
+app.get('/freezes/:game', (c) => {
+	const game = c.req.param('game')
+
+	const freezes = getFreezes(game).map((item) => ({ ...item, active: isFreezeActive(item) }))
+
+	return c.json(freezes)
+})
+
+// заморозка релизов игры или платформы, например, `{ "platform": "ios", "reason": "app store review" }`
+app.post('/freezes/:game', async (c) => {
+	const game = c.req.param('game')
+
+	if (!fse.existsSync(path.join(ENV.GAME_BUILDS_DIR, game))) {
+		return c.json({ message: `game '${game}' doesn't exist` }, 404)
+	}
+
+	const body = await c.req.json().catch(() => null)
+
+	const freezeResult = freezeRequestSchema.safeParse(body)
+	if (!freezeResult.success) {
+		return c.json({ message: `freeze is invalid`, errors: freezeResult.error.errors }, 400)
+	}
+
+	const freeze = await createFreeze(game, freezeResult.data, c.get('identity'))
+
+	return c.json({ ...freeze, active: isFreezeActive(freeze) })
+})
+
+// снятие заморозки (только для админов, иначе заморозку можно было бы обойти без `?overrideFreeze=true`)
+app.delete('/freezes/:game/:id', async (c) => {
+	const game = c.req.param('game')
+
+	if (!isAdminIdentity(c.get('identity'))) {
+		return c.json({ message: `only admins can remove freezes` }, 403)
+	}
+
+	const freeze = await removeFreeze(game, c.req.param('id'))
+
+	return c.json({ ...freeze, removed: true, removedBy: c.get('identity') })
+})
+
+// отложенные публикации и откаты игры
+app.get('/schedule/:game', (c) => {
+	const game = c.req.param('game')
+
+	return c.json(getScheduledActions(game))
+})
+
+// публикация или откат в указанное время, например, `{ "type": "publish", "platform": "web", "runAt": "..." }`
+app.post('/schedule/:game', async (c) => {
+	const game = c.req.param('game')
+
+	if (!fse.existsSync(path.join(ENV.GAME_BUILDS_DIR, game))) {
+		return c.json({ message: `game '${game}' doesn't exist` }, 404)
+	}
+
+	const body = await c.req.json().catch(() => null)
+
+	const scheduleResult = scheduleRequestSchema.safeParse(body)
+	if (!scheduleResult.success) {
+		return c.json({ message: `schedule request is invalid`, errors: scheduleResult.error.errors }, 400)
+	}
+
+	const channel = resolveChannel(game, scheduleResult.data.channel)
+
+	return c.json(await scheduleAction(game, channel, scheduleResult.data, c.get('identity')))
+})
+
+app.delete('/schedule/:game/:id', async (c) => {
+	const game = c.req.param('game')
+
+	const id = c.req.param('id')
+
+	return c.json(await cancelScheduledAction(game, id))
+})
+
+// настройки игры (политики хранения билдов и т.п.)
+app.get('/config/:game', (c) => {
+	const game = c.req.param('game')
+
+	return c.json(readGameConfig(game))
+})
+
+app.put('/config/:game', async (c) => {
+	const game = c.req.param('game')
+
+	if (!fse.existsSync(path.join(ENV.GAME_BUILDS_DIR, game))) {
+		return c.json({ message: `game '${game}' doesn't exist` }, 404)
+	}
+
+	const body = await c.req.json().catch(() => null)
+
+	const configResult = gameConfigSchema.safeParse(body)
+	if (!configResult.success) {
+		return c.json({ message: `config is invalid`, errors: configResult.error.errors }, 400)
+	}
+
+	// otherwise one identity could turn the approvals off and publish alone
+	if (!isEqual(readGameConfig(game).approvals, configResult.data.approvals) && !isAdminIdentity(c.get('identity'))) {
+		return c.json({ message: `only admins can change approvals` }, 403)
+	}
+
+	writeGameConfig(game, configResult.data)
+
+	return c.json(configResult.data)
+})
+
+// предпросмотр политики хранения: какие билды окружения будут удалены при следующем деплое
+app.get('/retention/:game/deployments/:env', (c) => {
+	const game = c.req.param('game')
+
+	const env = c.req.param('env')
+
+	const envDir = path.join(ENV.GAME_BUILDS_DIR, game, env)
+
+	if (!fse.existsSync(envDir)) {
+		return c.json({ message: `environment '${env}' doesn't exist` }, 404)
+	}
+
+	const policy = getDeploymentsRetentionPolicy(game, env)
+
+	const { keep, remove } = planDeploymentsRetention(game, env, policy)
+
+	return c.json({
+		policy,
+		keep: keep.map((version) => parseInt(version)),
+		remove: remove.map((version) => parseInt(version)),
+		pathsToRemove: remove.map((version) => path.relative(ENV.GAME_BUILDS_DIR, path.join(envDir, version))),
+	})
+})
+
+// предпросмотр политики хранения: какие релизы платформы будут удалены при следующей публикации
+app.get('/retention/:game/releases/:platform', async (c) => {
+	const game = c.req.param('game')
+
+	const platform = c.req.param('platform')
+
+	const channel = resolveChannel(game, c.req.query('channel'))
+
+	const releasesJsonPath = path.join(getReleasesDir(game, platform, channel), 'releases.json')
+
+	if (!fse.existsSync(releasesJsonPath)) {
+		return c.json({ message: `platform '${platform}' doesn't have releases` }, 404)
+	}
+
+	const policy = getReleasesRetentionPolicy(game, platform)
+
+	const { buildsToKeep, buildsToRemove, filesToRemove } = await planReleasesRetention(releasesJsonPath, policy)
+
+	return c.json({
+		policy,
+		keep: buildsToKeep.map((item) => item.key),
+		remove: buildsToRemove.map((item) => item.key),
+		pathsToRemove: filesToRemove.map((item) => path.relative(ENV.GAME_BUILDS_DIR, item)),
+	})
+})
+
+/**
+ * Checks that the build directory contains a valid build
+ * @throws {ApiError} if the build is missing or invalid
+ */
+function validateDeployment(buildDir: string, version: string): BuildInfo {
+	if (!fse.existsSync(buildDir)) {
+		throw new ApiError(404, `build directory '${buildDir}' doesn't exist`)
+	}
+
+	// ensure that the build_info.json is present
+	if (!fse.existsSync(path.join(buildDir, 'build_info.json'))) {
+		throw new ApiError(404, `build '${version}' doesn't have build_info.json`)
+	}
+
+	// ensure that the index.html is present
+	if (!fse.existsSync(path.join(buildDir, 'index.html'))) {
+		throw new ApiError(404, `build '${version}' doesn't have index.html`)
+	}
+
+	const buildInfoPath = path.join(buildDir, 'build_info.json')
+	const buildInfo = fse.readJsonSync(buildInfoPath) as BuildInfo
+
+	const buildInfoResult = buildInfoSchema.safeParse(buildInfo)
+	if (!buildInfoResult.success) {
+		throw new ApiError(400, `build info file is invalid`, { errors: buildInfoResult.error.errors })
+	}
+
+	return buildInfo
+}
+
+/**
+ * Points the `latest` symlink of the environment to the build directory
+ * @returns path to the symlink
+ */
+function updateLatestSymlink(envDir: string, buildDir: string): string {
+	let symlinkPath = path.join(envDir, 'latest')
+	fse.rmSync(symlinkPath, { force: true })
+	fse.symlinkSync(path.relative(envDir, buildDir), symlinkPath)
+
+	return symlinkPath
 }
 
-function createNewRelease(buildKey: BuildKey, buildInfo: BuildInfo): ReleaseInfo {
+/**
+ * Validates the build that was uploaded into the environment directory and makes it current (`latest` symlink)
+ * @param identity - caller identity that is recorded in the deployment history
+ * @throws {ApiError} if the build is missing or invalid
+ */
+function finalizeDeployment(game: string, env: string, deployedBuildVersion: string, identity: string) {
+	const gameDir = path.join(ENV.GAME_BUILDS_DIR, game)
+
+	const envDir = path.join(gameDir, env)
+
+	const deployedBuildDir = path.join(envDir, deployedBuildVersion)
+
+	const buildInfo = validateDeployment(deployedBuildDir, deployedBuildVersion)
+
+	// files of a redeployed build could change
+	removeDeploymentFilesCache(game, env, deployedBuildVersion)
+
+	// the signature is checked first, so the files are verified against the trusted manifest
+	const signedBy = verifyBuildSignature(game, deployedBuildDir, deployedBuildVersion)
+
+	const manifestVerified = verifyBuildManifest(
+		deployedBuildDir,
+		deployedBuildVersion,
+		() => getDeploymentFiles(game, env, deployedBuildVersion),
+		readGameConfig(game).integrity?.requireManifest ?? false,
+	)
+
+	const sizeReport = createDeploymentSizeReport(game, env, deployedBuildVersion)
+	if (sizeReport.budgets.mode === 'block' && sizeReport.budgets.violations.length > 0) {
+		throw new ApiError(400, `build '${deployedBuildVersion}' exceeds size budgets`, { sizeReport })
+	}
+
+	// move build files into the object store, so identical files across builds are stored once
+	const { ingested, deduplicated } = ingestDir(deployedBuildDir)
+
+	let symlinkPath = updateLatestSymlink(envDir, deployedBuildDir)
+
+	const time = toReadableDateString(Date.now(), 'ms')
+	console.log(`[${time}] Stored ${ingested} new files, deduplicated ${deduplicated} files`)
+	console.log(
+		`[${time}] Created symlink: ${path.relative(ENV.GAME_BUILDS_DIR, symlinkPath)} -> ${path.relative(ENV.GAME_BUILDS_DIR, deployedBuildDir)}`,
+	)
+
+	// Update modified date for deployed build dir
+	const currentTime = new Date()
+	try {
+		fse.utimesSync(deployedBuildDir, currentTime, currentTime)
+		console.log(
+			`[${time}] Updated modified date for ${path.relative(ENV.GAME_BUILDS_DIR, deployedBuildDir)} to ${toReadableDateString(currentTime.getTime())}`,
+		)
+	} catch (error) {
+		console.error(
+			`[${time}] Failed to update modified date for ${path.relative(ENV.GAME_BUILDS_DIR, deployedBuildDir)}:`,
+			error,
+		)
+	}
+
+	removePendingDeploy(game, env, parseInt(deployedBuildVersion))
+
+	appendDeploymentHistory(game, env, {
+		type: getDeployDates(game, env).has(parseInt(deployedBuildVersion)) ? 'redeploy' : 'deploy',
+		version: parseInt(deployedBuildVersion),
+		identity,
+		buildInfo,
+	})
+
+	const removedPaths = removeOldDeployments(game, env, getDeploymentsRetentionPolicy(game, env), identity)
+	console.log(`[${time}] Removed ${removedPaths.length} deployments: ${removedPaths.join(', ')}`)
+
 	return {
-		key: buildKey,
-		index: `index_${buildKey}.html`,
-		files: `files_${buildKey}.json`,
-		releasedAt: toReadableDateString(Date.now()),
-		builtAt: buildInfo.builtAtReadable,
-		gitBranch: buildInfo.gitBranch,
-		gitCommit: buildInfo.gitCommitHash,
+		buildVersion: deployedBuildVersion,
+		buildDir: path.relative(ENV.GAME_BUILDS_DIR, deployedBuildDir),
+		buildDirAlias: path.relative(ENV.GAME_BUILDS_DIR, symlinkPath),
+		manifestVerified,
+		signedBy,
+		sizeReport,
 	}
 }
 
 /**
- * Removes old deployments from the environment directory
- * @param envDir - path to the environment directory
- * @param options - options
- * @returns array of removed paths
+ * Reports size of the build, its delta against the current `latest` build and the size budgets violations
+ */
+function createDeploymentSizeReport(game: string, env: string, version: string): SizeReport {
+	const envDir = path.join(ENV.GAME_BUILDS_DIR, game, env)
+
+	const latestSymlinkPath = path.join(envDir, 'latest')
+	const latestVersion = fse.existsSync(latestSymlinkPath) ? path.basename(fse.realpathSync(latestSymlinkPath)) : null
+
+	const previous =
+		latestVersion && latestVersion !== version
+			? { version: latestVersion, files: getDeploymentFiles(game, env, latestVersion) }
+			: null
+
+	return createSizeReport(getDeploymentFiles(game, env, version), getSizeBudgets(game, env), previous)
+}
+
+/**
+ * Extracts the build archive into the build directory and finalizes the deployment
+ * @param options.clean - whether to replace the build dir contents or extract the archive on top of them
+ */
+async function deployArchive(
+	game: string,
+	env: string,
+	version: string,
+	archivePath: string,
+	identity: string,
+	options: { clean: boolean },
+) {
+	const buildDir = path.join(ENV.GAME_BUILDS_DIR, game, env, version)
+
+	if (!fse.existsSync(buildDir)) {
+		throw new ApiError(404, `build directory '${buildDir}' doesn't exist, call /preDeploy first`)
+	}
+
+	if (!isPendingDeploy(game, env, parseInt(version))) {
+		throw new ApiError(400, `build #${version} is already deployed, call /preDeploy for a new version`)
+	}
+
+	const extractDir = `${archivePath}_extracted`
+
+	try {
+		const files = await extractArchive(archivePath, extractDir)
+
+		if (options.clean) {
+			fse.rmSync(buildDir, { recursive: true })
+			fse.renameSync(extractDir, buildDir)
+		} else {
+			fse.copySync(extractDir, buildDir)
+		}
+
+		const time = toReadableDateString(Date.now(), 'ms')
+		console.log(`[${time}] Extracted ${files.length} files into ${path.relative(ENV.GAME_BUILDS_DIR, buildDir)}`)
+
+		return {
+			...finalizeDeployment(game, env, version, identity),
+			filesNum: files.length,
+		}
+	} finally {
+		fse.rmSync(extractDir, { recursive: true, force: true })
+	}
+}
+
+/**
+ * @returns versions of the non-empty build directories of the environment, sorted from oldest to newest
+ */
+function getExistingBuildVersions(envDir: string): number[] {
+	return fse
+		.readdirSync(envDir)
+		.filter((item) => isEmptyDir(path.join(envDir, item)) === false)
+		.map((item) => parseInt(item))
+		.filter((item) => Number.isInteger(item))
+		.sort((a, b) => a - b)
+}
+
+function isEmptyDir(dirPath: string): boolean {
+	return fse.statSync(dirPath).isDirectory() && fse.readdirSync(dirPath).length === 0
+}
+
+/**
+ * @returns key of the newest deployed build of the environment, pending deploys are skipped
  */
-function removeOldDeployments(envDir: string, options: { buildsNumToKeep: number }): string[] {
-	const allBuilds = fse
+function getLatestBuildKey(game: string, env: string): BuildKey | undefined {
+	const envDir = path.join(ENV.GAME_BUILDS_DIR, game, env)
+	if (!fse.existsSync(envDir)) {
+		return undefined
+	}
+
+	const pendingBuilds = getPendingDeploys(game, env).map((item) => item.version)
+
+	const builds = fse
 		.readdirSync(envDir)
 		.filter((item) => Number.isInteger(parseInt(item)) && fse.statSync(path.join(envDir, item)).isDirectory())
+		.filter((item) => !pendingBuilds.includes(parseInt(item)))
 		.sort((a, b) => parseInt(b) - parseInt(a))
 
-	// @ts-expect-error
-	const buildsToKeep = allBuilds.slice(0, options.buildsNumToKeep)
+	if (builds.length === 0) {
+		return undefined
+	}
+
+	return createBuildKey(env, builds[0])
+}
+
+/**
+ * @returns version of the build that was made current before the current one and still exists, undefined if there is none
+ */
+function getPreviousDeploymentVersion(
+	game: string,
+	env: string,
+	currentVersion: string | undefined,
+): string | undefined {
+	const envDir = path.join(ENV.GAME_BUILDS_DIR, game, env)
 
-	const buildsToRemove = allBuilds.slice(options.buildsNumToKeep)
+	const previous = readDeploymentHistory(game, env)
+		.reverse()
+		.filter((entry) => entry.type === 'deploy' || entry.type === 'redeploy' || entry.type === 'rollback')
+		.map((entry) => entry.version.toString())
+		.find((version) => version !== currentVersion && fse.existsSync(path.join(envDir, version)))
+
+	return previous
+}
+
+/**
+ * Removes old deployments from the environment directory
+ * @param policy - retention policy of the environment
+ * @param identity - caller identity that is recorded in the deployment history
+ * @returns array of removed paths
+ */
+function removeOldDeployments(game: string, env: string, policy: RetentionPolicy, identity: string): string[] {
+	const envDir = path.join(ENV.GAME_BUILDS_DIR, game, env)
+
+	const { remove: buildsToRemove } = planDeploymentsRetention(game, env, policy)
 
 	const removedPaths: string[] = []
 
@@ -709,57 +2051,173 @@ function removeOldDeployments(envDir: string, options: { buildsNumToKeep: number
 		const buildPath = path.join(envDir, build)
 		fse.rmSync(buildPath, { recursive: true })
 		removedPaths.push(buildPath)
+
+		appendDeploymentHistory(game, env, { type: 'cleanup', version: parseInt(build), identity })
+		removeDeploymentFilesCache(game, env, build)
 	})
 
+	if (removedPaths.length > 0) {
+		collectGarbage()
+	}
+
 	return removedPaths
 }
 
 /**
- * @returns object with removedBuilds array that contains removed build keys
+ * `?overrideFreeze=true` lets admins publish and roll back frozen platforms
  */
-async function removeOldReleases(releasesJsonPath: string, options: { buildsNumToKeep: number }) {
-	let releases = fse.readJsonSync(releasesJsonPath) as Releases
-	
-	// sort builds by date from newest to oldest
-	let builds = releases.builds.sort((a, b) => fromReadableDateString(b.releasedAt) - fromReadableDateString(a.releasedAt))
+function getFreezeOverride(c: Context): { requested: boolean; isAdmin: boolean } {
+	return { requested: c.req.query('overrideFreeze') === 'true', isAdmin: isAdminIdentity(c.get('identity')) }
+}
+
+/**
+ * Active freezes are added to the releases info only when the platform is frozen
+ */
+function getFreezesInfo(game: string, platform: string): { freezes?: Freeze[] } {
+	const freezes = getActiveFreezes(game, platform)
+
+	return freezes.length > 0 ? { freezes } : {}
+}
+
+/**
+ * Summary of the changes the publish request makes compared to the current release
+ */
+function createPublishRequestDiff(
+	game: string,
+	releasesDir: string,
+	releases: Releases,
+	buildKey: BuildKey,
+): PublishRequest['diff'] {
+	const { env, version } = parseBuildKey(buildKey)
 
-	// keep only the newest N builds
-	let buildsToKeep = builds.slice(0, options.buildsNumToKeep)
+	const current = releases.builds.find((item) => item.key === releases.current)
+	const currentFiles = current
+		? getReleaseFiles(releasesDir, current.key, fse.readJsonSync(path.join(releasesDir, current.files)))
+		: {}
 
-	let buildsToRemove = without(builds, ...buildsToKeep)
+	const diff = diffBuildFiles(currentFiles, getDeploymentFiles(game, env, version.toString()))
 
-	if (buildsToRemove.length === 0) {
-		return { removedBuilds: [] }
+	return {
+		from: current?.key ?? null,
+		addedNum: diff.added.length,
+		removedNum: diff.removed.length,
+		modifiedNum: diff.modified.length,
+		unchangedNum: diff.unchangedNum,
+		sizeDelta: diff.sizeDelta,
 	}
+}
 
-	let releasesDir = path.dirname(releasesJsonPath)
-	let filesAll = await globby(path.join(releasesDir, '**/*'))
-	let filesToKeep = buildsToKeep.flatMap((item) => fse.readJSONSync(path.join(releasesDir, item.files)))
-	filesToKeep.push('index.html')
-	filesToKeep.push('releases.json')
-	filesToKeep = filesToKeep.map((item) => path.join(releasesDir, item))
+/**
+ * Performs the scheduled publish or rollback by calling its route on behalf of the identity that scheduled it
+ * Failures are recorded in the release history, successful actions are recorded by the routes themselves
+ */
+async function executeScheduledAction(action: ScheduledAction): Promise<void> {
+	const { id, type, game, platform, channel, buildKey } = action
 
-	let filesToRemove = without(filesAll, ...filesToKeep)
-	filesToRemove.forEach((item) => fse.rmSync(item))
+	const url = new URL(`http://localhost/${type}/${game}/${platform}${buildKey ? `/${buildKey}` : ''}`)
+	url.searchParams.set('channel', channel)
+	// wait for the running publish or rollback instead of failing with 423
+	url.searchParams.set('wait', '60')
 
-	// update releases.json
-	releases.builds = buildsToKeep
-	fse.outputJSONSync(releasesJsonPath, releases, { spaces: '\t' })
+	const env: InternalRequestEnv = { [INTERNAL_REQUEST]: { identity: action.createdBy, scheduledActionId: id } }
 
-	return { removedBuilds: buildsToRemove.map((item) => item.key) }
-}
+	const time = toReadableDateString(Date.now(), 'ms')
+
+	try {
+		const response = await app.request(url.toString(), {}, env)
+
+		// the channel requires approvals, /publish created a publish request and recorded it in the release history
+		if (response.status === 202) {
+			const { request } = (await response.json()) as { request: PublishRequest }
+			console.log(
+				`[${time}] Scheduled ${type} ${id} of ${game}/${channel}/${platform} waits for approval (publish request ${request.id})`,
+			)
+			return
+		}
 
-function updateIndexHtmlSymlink(dir: string, buildKey: string): void {
-	let target = `./index_${buildKey}.html`
-	let filepath = path.join(dir, 'index.html')
+		if (response.ok) {
+			console.log(`[${time}] Scheduled ${type} ${id} of ${game}/${channel}/${platform} succeeded`)
+			return
+		}
 
-	// remove existing symlink (if present)
-	fse.rmSync(filepath, { force: true })
+		const { message } = (await response.json()) as { message?: string }
+		throw new Error(`${response.status} ${message ?? response.statusText}`)
+	} catch (error) {
+		console.error(
+			`[${time}] Scheduled ${type} ${id} of ${game}/${channel}/${platform} failed (${getErrorLog(error)})`,
+		)
 
-	// create new symlink
-	fse.symlinkSync(target, filepath)
+		appendReleaseHistory(game, platform, channel, {
+			type,
+			buildKey: buildKey ?? null,
+			identity: action.createdBy,
+			scheduledActionId: id,
+			error: error instanceof Error ? error.message : String(error),
+		})
+	}
+}
+
+// complete or roll back publishes that were interrupted by a crash or restart
+recoverInterruptedPublishes().catch((error) => {
+	const time = toReadableDateString(Date.now(), 'ms')
+	console.error(`[${time}] Failed to recover interrupted publishes (${getErrorLog(error)})`)
+})
+
+/**
+ * Executes scheduled publishes and rollbacks that are due
+ */
+export function runScheduledActions(): Promise<ScheduledAction[]> {
+	return runDueScheduledActions(executeScheduledAction)
 }
 
+// actions that were due while the server was down are executed within a minute after the start
+setInterval(() => {
+	runScheduledActions().catch((error) => {
+		const time = toReadableDateString(Date.now(), 'ms')
+		console.error(`[${time}] Failed to run scheduled actions (${getErrorLog(error)})`)
+	})
+}, 60 * 1000).unref()
+
+// periodically remove upload sessions and pending deploys that were abandoned by CI and expired publish requests
+setInterval(
+	async () => {
+		const removedSessions = removeAbandonedUploadSessions(ENV.UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000)
+		if (removedSessions.length > 0) {
+			const time = toReadableDateString(Date.now(), 'ms')
+			console.log(`[${time}] Removed ${removedSessions.length} abandoned upload sessions`)
+		}
+
+		try {
+			const removedDeploys = await removeAllExpiredPendingDeploys()
+			if (removedDeploys.length > 0) {
+				const time = toReadableDateString(Date.now(), 'ms')
+				const removed = removedDeploys.map((item) => `${item.game}/${item.env}/${item.version}`)
+				console.log(`[${time}] Removed ${removedDeploys.length} expired pending deploys: ${removed.join(', ')}`)
+			}
+		} catch (error) {
+			const time = toReadableDateString(Date.now(), 'ms')
+			console.error(`[${time}] Failed to remove expired pending deploys (${getErrorLog(error)})`)
+		}
+
+		try {
+			const removedRequests = await removeAllExpiredPublishRequests()
+			if (removedRequests.length > 0) {
+				const time = toReadableDateString(Date.now(), 'ms')
+				const removed = removedRequests.map(
+					(item) => `${item.game}/${item.channel}/${item.platform}/${item.buildKey}`,
+				)
+				console.log(
+					`[${time}] Removed ${removedRequests.length} expired publish requests: ${removed.join(', ')}`,
+				)
+			}
+		} catch (error) {
+			const time = toReadableDateString(Date.now(), 'ms')
+			console.error(`[${time}] Failed to remove expired publish requests (${getErrorLog(error)})`)
+		}
+	},
+	60 * 60 * 1000,
+).unref()
+
 export default {
 	fetch: app.fetch,
 	port: 4000,
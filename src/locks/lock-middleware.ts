@@ -0,0 +1,31 @@
+import type { Context } from 'hono'
+import { createMiddleware } from 'hono/factory'
+import { DEFAULT_CHANNEL, getReleasesPath } from '../releases/channels'
+import { withLock } from './locks'
+
+/**
+ * Lock key for the operations that modify builds of the environment (`game/env`)
+ */
+export function getDeployLockKey(game: string, env: string): string {
+	return `${game}/${env}`
+}
+
+/**
+ * Lock key for the operations that modify releases of the platform in the channel (`game/prod/platform` for `prod`)
+ */
+export function getReleaseLockKey(game: string, platform: string, channel: string = DEFAULT_CHANNEL): string {
+	return getReleasesPath(game, platform, channel)
+}
+
+/**
+ * Runs the route handler under the lock
+ * Busy lock fails the request with 423 immediately, `?wait=<seconds>` waits for the lock to be released instead
+ */
+export function lock(getKey: (c: Context) => string) {
+	return createMiddleware(async (c, next) => {
+		const wait = Number(c.req.query('wait') ?? 0)
+		const waitMs = Number.isFinite(wait) && wait > 0 ? wait * 1000 : 0
+
+		await withLock(getKey(c), `${c.req.method} ${c.req.path}`, { waitMs }, () => next())
+	})
+}
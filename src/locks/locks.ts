@@ -0,0 +1,253 @@
+import * as fse from 'fs-extra'
+import { randomUUID } from 'node:crypto'
+import os from 'node:os'
+import path from 'path'
+import { env as ENV } from '../env'
+import { getStateDir } from '../state-dir'
+import { fromReadableDateString, toReadableDateString } from '../utils/date/readable-date-string'
+import { ApiError } from '../utils/error/api-error'
+
+/**
+ * Locks protect mutating operations on the same environment/platform
+ * Lock is held in memory (for requests handled by this process) and as a lockfile in the state dir
+ * (for other server instances that share GAME_BUILDS_DIR)
+ */
+export type LockHolder = {
+	key: string
+	token: string
+	operation: string
+	acquiredAt: string
+	hostname: string
+	pid: number
+}
+
+export type Lock = {
+	key: string
+	token: string
+}
+
+const heldLocks = new Map<string, LockHolder>()
+
+const WAIT_POLL_INTERVAL_MS = 200
+
+const UNREADABLE_LOCKFILE_GRACE_MS = 5000
+
+function getLockPath(key: string): string {
+	return getStateDir('locks', `${encodeURIComponent(key)}.lock`)
+}
+
+/**
+ * @param options.waitMs - how long to wait for a busy lock, by default fails immediately
+ * @throws {ApiError} 423 with the lock holder details if the lock is busy
+ */
+export async function acquireLock(key: string, operation: string, options: { waitMs?: number } = {}): Promise<Lock> {
+	const deadline = Date.now() + (options.waitMs ?? 0)
+
+	while (true) {
+		const { lock, holder } = tryAcquireLock(key, operation)
+		if (lock) {
+			return lock
+		}
+
+		if (Date.now() >= deadline) {
+			throw new ApiError(423, `'${key}' is locked by another operation (${holder.operation})`, {
+				lock: {
+					key: holder.key,
+					operation: holder.operation,
+					acquiredAt: holder.acquiredAt,
+					hostname: holder.hostname,
+					pid: holder.pid,
+				},
+			})
+		}
+
+		await new Promise((resolve) => setTimeout(resolve, WAIT_POLL_INTERVAL_MS))
+	}
+}
+
+export function releaseLock(lock: Lock): void {
+	if (heldLocks.get(lock.key)?.token !== lock.token) {
+		return
+	}
+
+	heldLocks.delete(lock.key)
+
+	// other instance could break our lock if it was considered stale, don't remove its lockfile
+	const holder = readLockfile(getLockPath(lock.key))
+	if (holder?.token === lock.token) {
+		fse.rmSync(getLockPath(lock.key), { force: true })
+	}
+}
+
+export async function withLock<T>(
+	key: string,
+	operation: string,
+	options: { waitMs?: number },
+	fn: () => T | Promise<T>,
+): Promise<T> {
+	const lock = await acquireLock(key, operation, options)
+
+	try {
+		return await fn()
+	} finally {
+		releaseLock(lock)
+	}
+}
+
+/**
+ * @returns the acquired lock or the current holder if the lock is busy
+ */
+function tryAcquireLock(
+	key: string,
+	operation: string,
+): { lock: Lock; holder?: never } | { lock?: never; holder: LockHolder } {
+	const heldLock = heldLocks.get(key)
+	if (heldLock) {
+		return { holder: heldLock }
+	}
+
+	const holder: LockHolder = {
+		key,
+		token: randomUUID(),
+		operation,
+		acquiredAt: toReadableDateString(Date.now(), 'ms'),
+		hostname: os.hostname(),
+		pid: process.pid,
+	}
+
+	const lockPath = getLockPath(key)
+	fse.ensureDirSync(path.dirname(lockPath))
+
+	try {
+		const fd = fse.openSync(lockPath, 'wx')
+		try {
+			fse.writeSync(fd, JSON.stringify(holder, null, '\t'))
+		} finally {
+			fse.closeSync(fd)
+		}
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException)?.code !== 'EEXIST') {
+			throw error
+		}
+
+		const currentHolder = readLockfile(lockPath)
+		if (!isBreakable(lockPath) || !breakStaleLock(key, lockPath)) {
+			return {
+				holder: currentHolder ?? {
+					key,
+					token: '',
+					operation: 'unknown',
+					acquiredAt: toReadableDateString(Date.now(), 'ms'),
+					hostname: 'unknown',
+					pid: 0,
+				},
+			}
+		}
+
+		return tryAcquireLock(key, operation)
+	}
+
+	heldLocks.set(key, holder)
+
+	return { lock: { key, token: holder.token } }
+}
+
+/**
+ * Lockfile can be broken if its holder is stale or it stays unreadable for too long
+ * (lockfile is created empty and written right after, so its owner is given a moment)
+ */
+function isBreakable(lockPath: string): boolean {
+	const holder = readLockfile(lockPath)
+	if (holder) {
+		return isStale(holder)
+	}
+
+	const age = getFileAge(lockPath)
+	return age !== null && age >= UNREADABLE_LOCKFILE_GRACE_MS
+}
+
+/**
+ * Removes the stale lockfile under the break marker, which is created exclusively: of several instances that found
+ * the same stale lock only one breaks it, the others don't remove the lock it acquires right after
+ * @returns false if another instance is breaking the lock right now or the lock is not stale anymore
+ */
+function breakStaleLock(key: string, lockPath: string): boolean {
+	const markerPath = `${lockPath}.break`
+
+	try {
+		fse.closeSync(fse.openSync(markerPath, 'wx'))
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException)?.code !== 'EEXIST') {
+			throw error
+		}
+
+		// marker is left by an instance that died while breaking the lock
+		const age = getFileAge(markerPath)
+		if (age !== null && age >= UNREADABLE_LOCKFILE_GRACE_MS) {
+			fse.rmSync(markerPath, { force: true })
+		}
+
+		return false
+	}
+
+	try {
+		// the lock could be broken and acquired again before the marker was created
+		if (!isBreakable(lockPath)) {
+			return false
+		}
+
+		const time = toReadableDateString(Date.now(), 'ms')
+		console.warn(`[${time}] Breaking stale lock '${key}' held by ${JSON.stringify(readLockfile(lockPath))}`)
+
+		fse.rmSync(lockPath, { force: true })
+
+		return true
+	} finally {
+		fse.rmSync(markerPath, { force: true })
+	}
+}
+
+/**
+ * @returns time since the last modification of the file or null if it doesn't exist
+ */
+function getFileAge(filepath: string): number | null {
+	try {
+		return Date.now() - fse.statSync(filepath).mtime.getTime()
+	} catch {
+		return null
+	}
+}
+
+function readLockfile(lockPath: string): LockHolder | null {
+	try {
+		return fse.readJsonSync(lockPath) as LockHolder
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Lock is stale if its holder process is gone or it is held for too long (holder is stuck)
+ */
+function isStale(holder: LockHolder): boolean {
+	const age = Date.now() - fromReadableDateString(holder.acquiredAt)
+	if (age > ENV.LOCK_STALE_MINUTES * 60 * 1000) {
+		return true
+	}
+
+	if (holder.hostname !== os.hostname()) {
+		return false
+	}
+
+	// lock of this process that is not held in memory is left from a failed release or a restart
+	if (holder.pid === process.pid) {
+		return true
+	}
+
+	try {
+		process.kill(holder.pid, 0)
+		return false
+	} catch (error) {
+		return (error as NodeJS.ErrnoException)?.code === 'ESRCH'
+	}
+}
@@ -0,0 +1,63 @@
+import * as fse from 'fs-extra'
+import { z } from 'zod'
+import { getStateDir } from '../state-dir'
+import { toReadableDateString } from '../utils/date/readable-date-string'
+import { writeJsonAtomic } from '../utils/fs/write-json-atomic'
+
+/**
+ * Pinned deployments and releases are never removed by the retention policy
+ */
+export type Pin = {
+	reason: string
+	pinnedBy: string
+	pinnedAt: string
+}
+
+export const pinRequestSchema = z.object({
+	reason: z.string().trim().min(1).describe('why the build must be kept, e.g. "certification submission"'),
+})
+
+export function createPin(reason: string, identity: string): Pin {
+	return {
+		reason,
+		pinnedBy: identity,
+		pinnedAt: toReadableDateString(Date.now()),
+	}
+}
+
+/**
+ * Deployment pins are kept in the state dir, release pins are kept in `releases.json` (see `ReleaseInfo.pinned`)
+ */
+function getDeploymentPinsPath(game: string, env: string): string {
+	return getStateDir('games', game, 'envs', env, 'pins.json')
+}
+
+/**
+ * @returns pins of the environment builds by version
+ */
+export function getDeploymentPins(game: string, env: string): Record<string, Pin> {
+	const pinsPath = getDeploymentPinsPath(game, env)
+	return fse.existsSync(pinsPath) ? (fse.readJsonSync(pinsPath) as Record<string, Pin>) : {}
+}
+
+export function pinDeployment(game: string, env: string, version: string, pin: Pin): void {
+	const pins = getDeploymentPins(game, env)
+	pins[version] = pin
+	writeJsonAtomic(getDeploymentPinsPath(game, env), pins)
+}
+
+/**
+ * @returns removed pin or undefined if the build wasn't pinned
+ */
+export function unpinDeployment(game: string, env: string, version: string): Pin | undefined {
+	const pins = getDeploymentPins(game, env)
+	const pin = pins[version]
+	if (!pin) {
+		return undefined
+	}
+
+	delete pins[version]
+	writeJsonAtomic(getDeploymentPinsPath(game, env), pins)
+
+	return pin
+}
@@ -0,0 +1,74 @@
+import * as fse from 'fs-extra'
+import path from 'path'
+import { env as ENV } from '../env'
+import { readGameConfig } from '../games/game-config'
+import { ApiError } from '../utils/error/api-error'
+
+/**
+ * Channel of the routes called without `?channel=`, its releases are kept in `<game>/prod/<platform>` as before
+ */
+export const DEFAULT_CHANNEL = 'prod'
+
+/**
+ * @returns `prod` and the channels declared in the game config
+ */
+export function getChannels(game: string): string[] {
+	const channels = readGameConfig(game).channels ?? []
+
+	return [DEFAULT_CHANNEL, ...channels.filter((item) => item !== DEFAULT_CHANNEL)]
+}
+
+/**
+ * @param channel - value of the `channel` query param
+ * @returns the channel or `prod` if it is not set
+ * @throws {ApiError} if the game doesn't have the channel
+ */
+export function resolveChannel(game: string, channel: string | undefined): string {
+	if (!channel || channel === DEFAULT_CHANNEL) {
+		return DEFAULT_CHANNEL
+	}
+
+	if (!getChannels(game).includes(channel)) {
+		throw new ApiError(404, `channel '${channel}' doesn't exist`, { channels: getChannels(game) })
+	}
+
+	return channel
+}
+
+function getChannelPath(game: string, channel: string): string {
+	return channel === DEFAULT_CHANNEL ? path.join(game, DEFAULT_CHANNEL) : path.join(game, 'channels', channel)
+}
+
+/**
+ * Dir with the releases dirs of all platforms of the channel,
+ * `<game>/prod` for `prod` and `<game>/channels/<channel>` for other channels
+ */
+export function getChannelDir(game: string, channel: string): string {
+	return path.join(ENV.GAME_BUILDS_DIR, getChannelPath(game, channel))
+}
+
+/**
+ * @returns path of the releases dir relative to the game builds dir
+ */
+export function getReleasesPath(game: string, platform: string, channel: string = DEFAULT_CHANNEL): string {
+	return path.join(getChannelPath(game, channel), platform)
+}
+
+export function getReleasesDir(game: string, platform: string, channel: string = DEFAULT_CHANNEL): string {
+	return path.join(ENV.GAME_BUILDS_DIR, getReleasesPath(game, platform, channel))
+}
+
+/**
+ * @returns channels that have releases dirs (including the channels removed from the config)
+ */
+export function getExistingChannels(game: string): string[] {
+	const channelsDir = path.join(ENV.GAME_BUILDS_DIR, game, 'channels')
+	if (!fse.existsSync(channelsDir)) {
+		return [DEFAULT_CHANNEL]
+	}
+
+	return [
+		DEFAULT_CHANNEL,
+		...fse.readdirSync(channelsDir).filter((item) => fse.statSync(path.join(channelsDir, item)).isDirectory()),
+	]
+}
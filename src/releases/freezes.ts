@@ -0,0 +1,157 @@
+import * as fse from 'fs-extra'
+import { randomUUID } from 'node:crypto'
+import { z } from 'zod'
+import { withLock } from '../locks/locks'
+import { getStateDir } from '../state-dir'
+import { toReadableDateString } from '../utils/date/readable-date-string'
+import { ApiError } from '../utils/error/api-error'
+import { writeJsonAtomic } from '../utils/fs/write-json-atomic'
+
+export const freezeRequestSchema = z
+	.object({
+		platform: z.string().min(1).optional().describe('frozen platform, the whole game is frozen if not set'),
+		reason: z.string().min(1).describe('why releases are frozen, e.g. "app store review"'),
+		from: z
+			.string()
+			.datetime({ offset: true })
+			.optional()
+			.describe('start of the freeze window (ISO 8601 timestamp), the freeze starts now if not set'),
+		until: z
+			.string()
+			.datetime({ offset: true })
+			.optional()
+			.describe('end of the freeze window, the freeze lasts until it is removed if not set'),
+	})
+	.refine((value) => !value.from || !value.until || Date.parse(value.from) < Date.parse(value.until), {
+		message: 'must be later than `from`',
+		path: ['until'],
+	})
+
+export type FreezeRequest = z.infer<typeof freezeRequestSchema>
+
+/**
+ * Period when /publish and /rollback of the game or one of its platforms are refused
+ * Freezes are kept in the state dir until they are removed or their window ends
+ */
+export type Freeze = FreezeRequest & {
+	id: string
+	game: string
+	createdAt: string
+	createdBy: string
+}
+
+function getFreezesPath(game: string): string {
+	return getStateDir('games', game, 'freezes.json')
+}
+
+function getFreezesLockKey(game: string): string {
+	return `${game}/.freezes`
+}
+
+function isFreezeOver(freeze: Freeze, now: number): boolean {
+	return freeze.until !== undefined && Date.parse(freeze.until) <= now
+}
+
+export function isFreezeActive(freeze: Freeze, now: number = Date.now()): boolean {
+	return (freeze.from === undefined || Date.parse(freeze.from) <= now) && !isFreezeOver(freeze, now)
+}
+
+/**
+ * @returns active and upcoming freezes of the game sorted by start time
+ */
+export function getFreezes(game: string): Freeze[] {
+	const freezesPath = getFreezesPath(game)
+	if (!fse.existsSync(freezesPath)) {
+		return []
+	}
+
+	const now = Date.now()
+	const start = (freeze: Freeze) => (freeze.from ? Date.parse(freeze.from) : 0)
+
+	return (fse.readJsonSync(freezesPath) as Freeze[])
+		.filter((item) => !isFreezeOver(item, now))
+		.sort((a, b) => start(a) - start(b))
+}
+
+/**
+ * @returns active freezes of the whole game and of the platform
+ */
+export function getActiveFreezes(game: string, platform: string): Freeze[] {
+	return getFreezes(game).filter((item) => (!item.platform || item.platform === platform) && isFreezeActive(item))
+}
+
+/**
+ * @throws {ApiError} if the freeze window is already over
+ */
+export async function createFreeze(game: string, request: FreezeRequest, identity: string): Promise<Freeze> {
+	if (request.until && Date.parse(request.until) <= Date.now()) {
+		throw new ApiError(400, `until '${request.until}' is in the past`)
+	}
+
+	const freeze: Freeze = {
+		id: randomUUID(),
+		game,
+		...(request.platform && { platform: request.platform }),
+		reason: request.reason,
+		...(request.from && { from: new Date(request.from).toISOString() }),
+		...(request.until && { until: new Date(request.until).toISOString() }),
+		createdAt: toReadableDateString(Date.now()),
+		createdBy: identity,
+	}
+
+	// freezes that are over are dropped from the file
+	await withLock(getFreezesLockKey(game), 'freeze releases', { waitMs: 5000 }, () => {
+		writeJsonAtomic(getFreezesPath(game), [...getFreezes(game), freeze])
+	})
+
+	return freeze
+}
+
+/**
+ * @throws {ApiError} if the freeze doesn't exist (or is already over)
+ */
+export async function removeFreeze(game: string, id: string): Promise<Freeze> {
+	return withLock(getFreezesLockKey(game), 'unfreeze releases', { waitMs: 5000 }, () => {
+		const freezes = getFreezes(game)
+
+		const freeze = freezes.find((item) => item.id === id)
+		if (!freeze) {
+			throw new ApiError(404, `freeze '${id}' doesn't exist`)
+		}
+
+		writeJsonAtomic(
+			getFreezesPath(game),
+			freezes.filter((item) => item !== freeze),
+		)
+
+		return freeze
+	})
+}
+
+/**
+ * @param override - `?overrideFreeze=true` was passed, only admins are allowed to do that
+ * @returns ids of the active freezes that were overridden
+ * @throws {ApiError} if the platform is frozen and the freeze is not overridden by an admin
+ */
+export function checkFreezes(
+	game: string,
+	platform: string,
+	action: string,
+	override: { requested: boolean; isAdmin: boolean },
+): string[] {
+	const freezes = getActiveFreezes(game, platform)
+	if (freezes.length === 0) {
+		return []
+	}
+
+	if (!override.requested) {
+		const reasons = freezes.map((item) => item.reason).join(', ')
+		throw new ApiError(409, `${action} of '${game}/${platform}' is frozen (${reasons})`, { freezes })
+	}
+
+	if (!override.isAdmin) {
+		throw new ApiError(403, `only admins can override freezes`, { freezes })
+	}
+
+	return freezes.map((item) => item.id)
+}
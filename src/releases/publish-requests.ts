@@ -0,0 +1,248 @@
+import * as fse from 'fs-extra'
+import { randomUUID } from 'node:crypto'
+import type { BuildKey } from '../builds/build-key'
+import { readGameConfig } from '../games/game-config'
+import { withLock } from '../locks/locks'
+import { getStateDir } from '../state-dir'
+import { fromReadableDateString, toReadableDateString } from '../utils/date/readable-date-string'
+import { ApiError } from '../utils/error/api-error'
+import { writeJsonAtomic } from '../utils/fs/write-json-atomic'
+import { DEFAULT_CHANNEL } from './channels'
+
+const DEFAULT_TTL_HOURS = 24
+
+/**
+ * Publish that waits for the approval of an identity other than the requester
+ * Requests are kept in the state dir until they are approved, rejected or expired
+ */
+export type PublishRequest = {
+	id: string
+	game: string
+	platform: string
+	channel: string
+	buildKey: BuildKey
+	/**
+	 * Percentage of the staged rollout the build is published with
+	 */
+	rollout?: number
+	/**
+	 * Publish the build even if it was yanked (`?force=true`)
+	 */
+	force?: boolean
+	/**
+	 * Publish the build even if the platform is frozen, set when an admin requested the publish with `?overrideFreeze=true`
+	 */
+	overrideFreeze?: boolean
+	/**
+	 * Fingerprint of the build files at the time of the request (see `getBuildFingerprint`),
+	 * the approved publish fails if the build was redeployed since then
+	 */
+	buildFingerprint: string
+	/**
+	 * Changes of the files compared to the current release at the time of the request
+	 */
+	diff: {
+		from: string | null
+		addedNum: number
+		removedNum: number
+		modifiedNum: number
+		unchangedNum: number
+		sizeDelta: number
+	}
+	requestedBy: string
+	requestedAt: string
+	expiresAt: string
+}
+
+/**
+ * Approval the publish is performed with, passed to /publish by the approve route
+ */
+export type PublishApproval = {
+	requestId: string
+	approvedBy: string
+	buildFingerprint: string
+}
+
+function getPublishRequestsPath(game: string): string {
+	return getStateDir('games', game, 'publish-requests.json')
+}
+
+export function getPublishRequestsLockKey(game: string): string {
+	return `${game}/.publish-requests`
+}
+
+/**
+ * @returns whether publishes into the channel must be approved
+ */
+export function isApprovalRequired(game: string, channel: string): boolean {
+	const approvals = readGameConfig(game).approvals
+	if (!approvals?.required) {
+		return false
+	}
+
+	return (approvals.channels ?? [DEFAULT_CHANNEL]).includes(channel)
+}
+
+/**
+ * @returns publish requests of the game sorted by request time (including expired ones)
+ */
+export function getPublishRequests(game: string): PublishRequest[] {
+	const requestsPath = getPublishRequestsPath(game)
+	if (!fse.existsSync(requestsPath)) {
+		return []
+	}
+
+	return (fse.readJsonSync(requestsPath) as PublishRequest[]).sort(
+		(a, b) => fromReadableDateString(a.requestedAt) - fromReadableDateString(b.requestedAt),
+	)
+}
+
+function writePublishRequests(game: string, requests: PublishRequest[]): void {
+	writeJsonAtomic(getPublishRequestsPath(game), requests)
+}
+
+export function isPublishRequestExpired(request: PublishRequest): boolean {
+	return fromReadableDateString(request.expiresAt) <= Date.now()
+}
+
+/**
+ * @throws {ApiError} if the build already has a publish request in the channel
+ */
+export async function createPublishRequest(
+	request: Pick<
+		PublishRequest,
+		| 'game'
+		| 'platform'
+		| 'channel'
+		| 'buildKey'
+		| 'rollout'
+		| 'force'
+		| 'overrideFreeze'
+		| 'buildFingerprint'
+		| 'diff'
+		| 'requestedBy'
+	>,
+): Promise<PublishRequest> {
+	const { game } = request
+	const ttlHours = readGameConfig(game).approvals?.ttlHours ?? DEFAULT_TTL_HOURS
+	const now = Date.now()
+
+	const publishRequest: PublishRequest = {
+		id: randomUUID(),
+		game,
+		platform: request.platform,
+		channel: request.channel,
+		buildKey: request.buildKey,
+		...(request.rollout !== undefined && { rollout: request.rollout }),
+		...(request.force && { force: true }),
+		...(request.overrideFreeze && { overrideFreeze: true }),
+		buildFingerprint: request.buildFingerprint,
+		diff: request.diff,
+		requestedBy: request.requestedBy,
+		requestedAt: toReadableDateString(now),
+		expiresAt: toReadableDateString(now + ttlHours * 60 * 60 * 1000),
+	}
+
+	await withLock(getPublishRequestsLockKey(game), 'request publish', { waitMs: 5000 }, () => {
+		const requests = getPublishRequests(game).filter((item) => !isPublishRequestExpired(item))
+
+		const existing = requests.find(
+			(item) =>
+				item.platform === request.platform &&
+				item.channel === request.channel &&
+				item.buildKey === request.buildKey,
+		)
+		if (existing) {
+			throw new ApiError(400, `'${request.buildKey}' already has a publish request`, { request: existing })
+		}
+
+		writePublishRequests(game, [...requests, publishRequest])
+	})
+
+	return publishRequest
+}
+
+/**
+ * @throws {ApiError} if the request doesn't exist or is expired
+ */
+export function getPublishRequest(game: string, id: string): PublishRequest {
+	const request = getPublishRequests(game).find((item) => item.id === id)
+	if (!request) {
+		throw new ApiError(404, `publish request '${id}' doesn't exist`)
+	}
+
+	if (isPublishRequestExpired(request)) {
+		throw new ApiError(400, `publish request '${id}' expired at ${request.expiresAt}`)
+	}
+
+	return request
+}
+
+/**
+ * Must be called under the publish requests lock of the game
+ * @returns removed request or undefined if it doesn't exist
+ */
+export function removePublishRequest(game: string, id: string): PublishRequest | undefined {
+	const requests = getPublishRequests(game)
+
+	const request = requests.find((item) => item.id === id)
+	if (!request) {
+		return undefined
+	}
+
+	writePublishRequests(
+		game,
+		requests.filter((item) => item !== request),
+	)
+
+	return request
+}
+
+/**
+ * Must be called under the publish requests lock of the game
+ * @returns removed expired requests
+ */
+export function removeExpiredPublishRequests(game: string): PublishRequest[] {
+	const requests = getPublishRequests(game)
+
+	const expired = requests.filter((item) => isPublishRequestExpired(item))
+	if (expired.length > 0) {
+		writePublishRequests(
+			game,
+			requests.filter((item) => !expired.includes(item)),
+		)
+	}
+
+	return expired
+}
+
+/**
+ * Removes expired publish requests of all games
+ * Games locked by a running approval are skipped until the next time
+ */
+export async function removeAllExpiredPublishRequests(): Promise<PublishRequest[]> {
+	const gamesDir = getStateDir('games')
+	if (!fse.existsSync(gamesDir)) {
+		return []
+	}
+
+	const games = fse.readdirSync(gamesDir).filter((game) => fse.existsSync(getPublishRequestsPath(game)))
+
+	const removed: PublishRequest[] = []
+
+	for (const game of games) {
+		try {
+			const expired = await withLock(getPublishRequestsLockKey(game), 'publish requests cleanup', {}, () =>
+				removeExpiredPublishRequests(game),
+			)
+
+			removed.push(...expired)
+		} catch (error) {
+			if (!(error instanceof ApiError && error.status === 423)) {
+				throw error
+			}
+		}
+	}
+
+	return removed
+}
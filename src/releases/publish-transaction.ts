@@ -0,0 +1,374 @@
+import * as fse from 'fs-extra'
+import path from 'path'
+import type { BuildInfo } from '../builds/build-info'
+import type { BuildKey } from '../builds/build-key'
+import { BUILD_MANIFEST_FILENAME } from '../builds/build-manifest'
+import { BUILD_SIGNATURE_FILENAME } from '../builds/build-signature'
+import { saveReleaseFiles } from '../diff/build-files'
+import { env as ENV } from '../env'
+import { getReleaseLockKey } from '../locks/lock-middleware'
+import { acquireLock, releaseLock } from '../locks/locks'
+import { getReleasesRetentionPolicy } from '../retention/retention'
+import { linkDir, listFiles } from '../store/object-store'
+import { toReadableDateString } from '../utils/date/readable-date-string'
+import { getErrorLog } from '../utils/error/utils'
+import { writeJsonAtomic } from '../utils/fs/write-json-atomic'
+import { getChannelDir, getExistingChannels } from './channels'
+import {
+	createNewRelease,
+	planReleasesRetention,
+	removeOldReleases,
+	updateIndexHtmlSymlink,
+	type ReleaseInfo,
+	type Releases,
+} from './releases'
+import { createRollout, writeRolloutIndexHtml } from './rollout'
+
+/**
+ * Releases dir (`<game>/prod/<platform>` or `<game>/channels/<channel>/<platform>`) is a symlink to a release tree
+ * in `.releases/<platform>/` next to it. Publish is a transaction journaled in `.releases/<platform>/.publish-journal.json`:
+ * 1. prepare - a fresh tree is assembled from the files of the live tree and the new build (via hardlinks),
+ *    `releases.json` and `index.html` of the new tree are written
+ * 2. switch - the releases dir symlink is replaced atomically with the one pointing to the new tree,
+ *    it is the point of no return, players never see a half-published release
+ * 3. complete - old releases are pruned, previous trees, the staging dir and the journal are removed
+ *
+ * If the process dies in between, the journal is found on the next start (or the next publish):
+ * before the switch the new tree is discarded, after the switch the publish is completed.
+ */
+type PublishJournal = {
+	buildKey: BuildKey
+	startedAt: string
+	/**
+	 * Name of the tree dir the publish prepares
+	 */
+	tree: string
+}
+
+const JOURNAL_FILENAME = '.publish-journal.json'
+
+const RELEASES_DIR_TEMP_FILENAME = '.releases-dir.tmp'
+
+function getTreesDir(releasesDir: string): string {
+	return path.join(path.dirname(releasesDir), '.releases', path.basename(releasesDir))
+}
+
+function getStagingDir(releasesDir: string, buildKey: string): string {
+	return path.join(getTreesDir(releasesDir), `.staging_${buildKey}`)
+}
+
+function getJournalPath(releasesDir: string): string {
+	return path.join(getTreesDir(releasesDir), JOURNAL_FILENAME)
+}
+
+/**
+ * @returns name of the tree the releases dir points to or null if it is not a symlink (e.g. not published yet)
+ */
+function getLiveTree(releasesDir: string): string | null {
+	if (!fse.existsSync(releasesDir) || !fse.lstatSync(releasesDir).isSymbolicLink()) {
+		return null
+	}
+
+	return path.basename(fse.readlinkSync(releasesDir))
+}
+
+/**
+ * Releases dir is `<game>/prod/<platform>` or `<game>/channels/<channel>/<platform>`
+ */
+function getGameAndPlatform(releasesDir: string): [game: string, platform: string] {
+	return [path.relative(ENV.GAME_BUILDS_DIR, releasesDir).split(path.sep)[0], path.basename(releasesDir)]
+}
+
+function readJournal(releasesDir: string): PublishJournal | null {
+	const journalPath = getJournalPath(releasesDir)
+	return fse.existsSync(journalPath) ? (fse.readJsonSync(journalPath) as PublishJournal) : null
+}
+
+function writeJournal(releasesDir: string, journal: PublishJournal): void {
+	writeJsonAtomic(getJournalPath(releasesDir), journal)
+}
+
+/**
+ * Publishes the build located in `srcDir` into the releases dir
+ * Must be called under the release lock of the platform
+ * @param options.rollout - publish the build as the candidate of a staged rollout instead of making it current
+ */
+export async function publishRelease(
+	releasesDir: string,
+	buildKey: BuildKey,
+	srcDir: string,
+	options: { rollout?: { percentage: number; identity: string } } = {},
+): Promise<ReleaseInfo> {
+	// finish whatever the previous publish left behind before starting a new one
+	await recoverPublish(releasesDir)
+
+	const journal: PublishJournal = {
+		buildKey,
+		startedAt: toReadableDateString(Date.now(), 'ms'),
+		tree: `${buildKey}_${Date.now()}`,
+	}
+
+	writeJournal(releasesDir, journal)
+
+	const stagingDir = getStagingDir(releasesDir, buildKey)
+	const treeDir = path.join(getTreesDir(releasesDir), journal.tree)
+
+	// копируем билд во временную папку (хардлинками на файлы из хранилища объектов)
+	fse.rmSync(stagingDir, { recursive: true, force: true })
+	linkDir(srcDir, stagingDir)
+
+	let buildInfo = fse.readJsonSync(path.join(stagingDir, 'build_info.json')) as BuildInfo
+
+	// build_info.json, манифест и его подпись нам уже не нужны, удаляем их
+	fse.rmSync(path.join(stagingDir, 'build_info.json'))
+	fse.rmSync(path.join(stagingDir, BUILD_MANIFEST_FILENAME), { force: true })
+	fse.rmSync(path.join(stagingDir, BUILD_SIGNATURE_FILENAME), { force: true })
+
+	// переименовываем index.html в index_${buildKey}.html (например, index_master-11.html)
+	fse.renameSync(path.join(stagingDir, 'index.html'), path.join(stagingDir, `index_${buildKey}.html`))
+
+	// создаем файл files_${buildKey}.json, в котором будут перечислены все файлы билда
+	let filesJsonPath = path.join(stagingDir, `files_${buildKey}.json`)
+	let files = [path.basename(filesJsonPath), ...listFiles(stagingDir)]
+	fse.outputJsonSync(filesJsonPath, files, { spaces: '\t' })
+
+	// хеши файлов релиза запоминаются сейчас, потому что файлы в папке релизов могут быть заменены следующими релизами
+	saveReleaseFiles(releasesDir, buildKey, stagingDir)
+
+	// собираем новое дерево релизов: файлы текущих релизов + файлы нового билда поверх них
+	const liveTree = getLiveTree(releasesDir)
+	if (fse.existsSync(releasesDir)) {
+		linkDir(liveTree ? path.join(getTreesDir(releasesDir), liveTree) : releasesDir, treeDir)
+	}
+	linkDir(stagingDir, treeDir)
+
+	let releasesJsonPath = path.join(releasesDir, 'releases.json')
+	let releases: Releases = fse.existsSync(releasesJsonPath)
+		? fse.readJsonSync(releasesJsonPath)
+		: {
+				current: '',
+				builds: [],
+			}
+
+	let newRelease = createNewRelease(buildKey, buildInfo)
+	if (options.rollout) {
+		releases.rollout = createRollout(newRelease.key, options.rollout.percentage, options.rollout.identity)
+	} else {
+		releases.current = newRelease.key
+	}
+	releases.builds.unshift(newRelease)
+
+	// yanked build that is published again with `?force=true` is not yanked anymore
+	releases.yanked = releases.yanked?.filter((item) => item.key !== newRelease.key)
+	if (releases.yanked?.length === 0) {
+		delete releases.yanked
+	}
+
+	writeJsonAtomic(path.join(treeDir, 'releases.json'), releases)
+
+	if (releases.rollout?.candidate === newRelease.key && releases.current) {
+		writeRolloutIndexHtml(treeDir, releases.current, releases.rollout)
+	} else {
+		updateIndexHtmlSymlink(treeDir, newRelease.key)
+	}
+
+	// переключаем папку релизов на новое дерево, после этого публикация считается состоявшейся
+	switchReleasesDir(releasesDir, treeDir)
+
+	await completePublish(releasesDir, journal)
+
+	return newRelease
+}
+
+/**
+ * Atomically points the releases dir to the tree
+ * Releases dir that is still a plain directory (published before release trees) is moved into a tree first,
+ * it is missing for a moment only during this one-time migration (`recoverPublish` puts it back after a crash)
+ */
+function switchReleasesDir(releasesDir: string, treeDir: string): void {
+	const tempPath = path.join(getTreesDir(releasesDir), RELEASES_DIR_TEMP_FILENAME)
+
+	fse.rmSync(tempPath, { force: true })
+	fse.symlinkSync(path.relative(path.dirname(releasesDir), treeDir), tempPath)
+
+	if (fse.existsSync(releasesDir) && !fse.lstatSync(releasesDir).isSymbolicLink()) {
+		fse.renameSync(releasesDir, path.join(getTreesDir(releasesDir), `legacy_${Date.now()}`))
+	}
+
+	fse.renameSync(tempPath, releasesDir)
+}
+
+/**
+ * Describes what `publishRelease` would do without touching the filesystem
+ * Files are compared by inodes, because build and release files are hardlinks to the object store
+ */
+export async function planPublish(
+	releasesDir: string,
+	buildKey: BuildKey,
+	srcDir: string,
+	options: { rollout?: { percentage: number; identity: string } } = {},
+) {
+	const buildInfo = fse.readJsonSync(path.join(srcDir, 'build_info.json')) as BuildInfo
+
+	const newRelease = createNewRelease(buildKey, buildInfo)
+
+	// same transformations as in publishRelease: service files are skipped, index.html is renamed
+	const srcFiles = listFiles(srcDir)
+		.filter(
+			(filepath) => !['build_info.json', BUILD_MANIFEST_FILENAME, BUILD_SIGNATURE_FILENAME].includes(filepath),
+		)
+		.map((filepath) => ({ filepath: filepath === 'index.html' ? newRelease.index : filepath, srcPath: filepath }))
+
+	const files = [newRelease.files, ...srcFiles.map((item) => item.filepath)].sort()
+
+	const created = [newRelease.files]
+	const replaced: string[] = []
+	const unchanged: string[] = []
+	srcFiles.forEach(({ filepath, srcPath }) => {
+		const livePath = path.join(releasesDir, filepath)
+		if (!fse.existsSync(livePath)) {
+			created.push(filepath)
+		} else if (fse.lstatSync(livePath).ino !== fse.lstatSync(path.join(srcDir, srcPath)).ino) {
+			replaced.push(filepath)
+		} else {
+			unchanged.push(filepath)
+		}
+	})
+
+	const releasesJsonPath = path.join(releasesDir, 'releases.json')
+	const releases: Releases = fse.existsSync(releasesJsonPath)
+		? fse.readJsonSync(releasesJsonPath)
+		: { current: '', builds: [] }
+
+	const policy = getReleasesRetentionPolicy(...getGameAndPlatform(releasesDir))
+	const { buildsToRemove, filesToRemove } = await planReleasesRetention(releasesJsonPath, policy, {
+		releases: options.rollout
+			? {
+					current: releases.current,
+					builds: [newRelease, ...releases.builds],
+					rollout: createRollout(newRelease.key, options.rollout.percentage, options.rollout.identity),
+				}
+			: { current: newRelease.key, builds: [newRelease, ...releases.builds] },
+		getFiles: (release) =>
+			release.key === newRelease.key ? files : fse.readJsonSync(path.join(releasesDir, release.files)),
+	})
+
+	return {
+		release: newRelease,
+		files: { created: created.sort(), replaced: replaced.sort(), unchanged: unchanged.sort() },
+		retention: {
+			policy,
+			remove: buildsToRemove.map((item) => item.key),
+			pathsToRemove: filesToRemove.map((item) => path.relative(ENV.GAME_BUILDS_DIR, item)),
+		},
+	}
+}
+
+/**
+ * Completes or rolls back the interrupted publish of the releases dir (if there is one)
+ * Must be called under the release lock of the platform
+ */
+export async function recoverPublish(releasesDir: string): Promise<'completed' | 'rolledBack' | null> {
+	const journal = readJournal(releasesDir)
+	if (!journal) {
+		return null
+	}
+
+	if (!fse.existsSync(releasesDir)) {
+		restoreReleasesDir(releasesDir, journal)
+	}
+
+	if (getLiveTree(releasesDir) === journal.tree) {
+		await completePublish(releasesDir, journal)
+		return 'completed'
+	}
+
+	fse.rmSync(path.join(getTreesDir(releasesDir), journal.tree), { recursive: true, force: true })
+	cleanup(releasesDir, journal)
+	return 'rolledBack'
+}
+
+/**
+ * Publish died between the two renames of `switchReleasesDir`, the legacy releases dir is already moved into a tree:
+ * the prepared symlink is put in place if it points to the journaled tree, otherwise the legacy dir is moved back
+ */
+function restoreReleasesDir(releasesDir: string, journal: PublishJournal): void {
+	const treesDir = getTreesDir(releasesDir)
+	const items = fse.readdirSync(treesDir)
+
+	// symlink target is relative to the releases dir, so it is dangling until renamed
+	const tempPath = path.join(treesDir, RELEASES_DIR_TEMP_FILENAME)
+	if (items.includes(RELEASES_DIR_TEMP_FILENAME) && path.basename(fse.readlinkSync(tempPath)) === journal.tree) {
+		fse.renameSync(tempPath, releasesDir)
+		return
+	}
+
+	const legacyDir = items
+		.filter((item) => item.startsWith('legacy_'))
+		.sort()
+		.at(-1)
+	if (legacyDir) {
+		fse.renameSync(path.join(treesDir, legacyDir), releasesDir)
+	}
+}
+
+/**
+ * Recovers interrupted publishes of all games and platforms, should be called on startup
+ * Platforms locked by another live server instance are skipped
+ */
+export async function recoverInterruptedPublishes(): Promise<void> {
+	if (!fse.existsSync(ENV.GAME_BUILDS_DIR)) {
+		return
+	}
+
+	const interrupted = fse.readdirSync(ENV.GAME_BUILDS_DIR).flatMap((game) => {
+		return getExistingChannels(game).flatMap((channel) => {
+			const channelDir = getChannelDir(game, channel)
+			if (!fse.existsSync(channelDir) || !fse.statSync(channelDir).isDirectory()) {
+				return []
+			}
+
+			return fse
+				.readdirSync(channelDir)
+				.filter((platform) => fse.existsSync(getJournalPath(path.join(channelDir, platform))))
+				.map((platform) => ({ game, channel, platform, releasesDir: path.join(channelDir, platform) }))
+		})
+	})
+
+	for (const { game, channel, platform, releasesDir } of interrupted) {
+		const time = toReadableDateString(Date.now(), 'ms')
+
+		try {
+			const lock = await acquireLock(getReleaseLockKey(game, platform, channel), 'publish recovery')
+
+			try {
+				const result = await recoverPublish(releasesDir)
+				console.log(
+					`[${time}] Interrupted publish in ${path.relative(ENV.GAME_BUILDS_DIR, releasesDir)}: ${result}`,
+				)
+			} finally {
+				releaseLock(lock)
+			}
+		} catch (error) {
+			console.error(`[${time}] Failed to recover publish in ${releasesDir} (${getErrorLog(error)})`)
+		}
+	}
+}
+
+async function completePublish(releasesDir: string, journal: PublishJournal): Promise<void> {
+	const policy = getReleasesRetentionPolicy(...getGameAndPlatform(releasesDir))
+	await removeOldReleases(path.join(releasesDir, 'releases.json'), policy)
+
+	// previous trees are not served anymore
+	const treesDir = getTreesDir(releasesDir)
+	fse.readdirSync(treesDir)
+		.filter((item) => item !== journal.tree && item !== JOURNAL_FILENAME)
+		.forEach((item) => fse.rmSync(path.join(treesDir, item), { recursive: true, force: true }))
+
+	cleanup(releasesDir, journal)
+}
+
+function cleanup(releasesDir: string, journal: PublishJournal): void {
+	fse.rmSync(getStagingDir(releasesDir, journal.buildKey), { recursive: true, force: true })
+	fse.rmSync(getJournalPath(releasesDir), { force: true })
+}
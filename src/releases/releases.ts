@@ -0,0 +1,154 @@
+import * as fse from 'fs-extra'
+import { without } from 'lodash-es'
+import path from 'path'
+import { getBuildInfoExtras, type BuildInfo, type BuildInfoExtras } from '../builds/build-info'
+import type { BuildKey } from '../builds/build-key'
+import { removeReleaseFilesCache } from '../diff/build-files'
+import type { Pin } from '../pins/pins'
+import { applyRetentionPolicy, type RetentionPolicy } from '../retention/retention'
+import { collectGarbage, listFiles } from '../store/object-store'
+import { fromReadableDateString, toReadableDateString } from '../utils/date/readable-date-string'
+import { writeJsonAtomic } from '../utils/fs/write-json-atomic'
+import type { Rollout } from './rollout'
+import type { YankedRelease } from './yank'
+
+export type ReleaseInfo = BuildInfoExtras & {
+	key: BuildKey
+	index: string
+	files: string
+	releasedAt: string
+	builtAt: string
+	gitBranch: string
+	gitCommit: string
+	pinned?: Pin
+}
+
+export type Releases = {
+	current: string | null
+	builds: ReleaseInfo[]
+	rollout?: Rollout
+	yanked?: YankedRelease[]
+}
+
+/**
+ * @return {string} - key of the build that was published before the current one or undefined if there are no previous builds
+ */
+export function getPreviousReleaseBuildKey(releasesDir: string): BuildKey | undefined {
+	const releasesJsonPath = path.join(releasesDir, 'releases.json')
+	if (!fse.existsSync(releasesJsonPath)) {
+		return undefined
+	}
+
+	const releases = fse.readJsonSync(releasesJsonPath) as Releases
+
+	// sort builds by date from newest to oldest
+	const releasesSortedByDate = releases.builds.sort((a, b) => {
+		return fromReadableDateString(b.releasedAt) - fromReadableDateString(a.releasedAt)
+	})
+
+	const currentRelease = releasesSortedByDate.find((item) => item.key === releases.current)
+	if (!currentRelease) {
+		return undefined
+	}
+
+	const currentReleaseIndex = releasesSortedByDate.indexOf(currentRelease)
+
+	const previousRelease = releasesSortedByDate.at(currentReleaseIndex + 1)
+
+	return previousRelease?.key
+}
+
+export function createNewRelease(buildKey: BuildKey, buildInfo: BuildInfo): ReleaseInfo {
+	return {
+		key: buildKey,
+		index: `index_${buildKey}.html`,
+		files: `files_${buildKey}.json`,
+		releasedAt: toReadableDateString(Date.now()),
+		builtAt: buildInfo.builtAtReadable,
+		gitBranch: buildInfo.gitBranch,
+		gitCommit: buildInfo.gitCommitHash,
+		...getBuildInfoExtras(buildInfo),
+	}
+}
+
+/**
+ * @param options.releases - releases to plan for instead of releases.json (e.g. with a release that is not published yet)
+ * @param options.getFiles - files of the release instead of the contents of its files json
+ * @returns releases to keep and to remove and the files that belong only to the removed releases
+ */
+export async function planReleasesRetention(
+	releasesJsonPath: string,
+	policy: RetentionPolicy,
+	options: { releases?: Releases; getFiles?: (release: ReleaseInfo) => string[] } = {},
+) {
+	let releasesDir = path.dirname(releasesJsonPath)
+	let releases = options.releases ?? (fse.readJsonSync(releasesJsonPath) as Releases)
+	let getFiles =
+		options.getFiles ??
+		((release: ReleaseInfo) => fse.readJsonSync(path.join(releasesDir, release.files)) as string[])
+
+	// sort builds by date from newest to oldest
+	let builds = releases.builds.sort(
+		(a, b) => fromReadableDateString(b.releasedAt) - fromReadableDateString(a.releasedAt),
+	)
+
+	let { keep: buildsToKeep, remove: buildsToRemove } = applyRetentionPolicy(builds, policy, {
+		getDate: (item) => fromReadableDateString(item.releasedAt),
+		isProtected: (item) =>
+			item.key === releases.current || item.key === releases.rollout?.candidate || Boolean(item.pinned),
+	})
+
+	if (buildsToRemove.length === 0) {
+		return { releases, buildsToKeep, buildsToRemove, filesToRemove: [] }
+	}
+
+	let filesAll = listFiles(releasesDir).map((item) => path.join(releasesDir, item))
+	let filesToKeep = buildsToKeep.flatMap(getFiles)
+	filesToKeep.push('index.html')
+	filesToKeep.push('releases.json')
+	filesToKeep = filesToKeep.map((item) => path.join(releasesDir, item))
+
+	let filesToRemove = without(filesAll, ...filesToKeep)
+
+	return { releases, buildsToKeep, buildsToRemove, filesToRemove }
+}
+
+/**
+ * @returns object with removedBuilds array that contains removed build keys
+ */
+export async function removeOldReleases(releasesJsonPath: string, policy: RetentionPolicy) {
+	let { releases, buildsToKeep, buildsToRemove, filesToRemove } = await planReleasesRetention(
+		releasesJsonPath,
+		policy,
+	)
+
+	if (buildsToRemove.length === 0) {
+		return { removedBuilds: [] }
+	}
+
+	// update releases.json first, so it never lists a release whose files are already removed
+	releases.builds = buildsToKeep
+	writeJsonAtomic(releasesJsonPath, releases)
+
+	filesToRemove.forEach((item) => fse.rmSync(item))
+
+	// remove objects that were referenced only by the removed files
+	collectGarbage()
+
+	buildsToRemove.forEach((item) => removeReleaseFilesCache(path.dirname(releasesJsonPath), item.key))
+
+	return { removedBuilds: buildsToRemove.map((item) => item.key) }
+}
+
+export function updateIndexHtmlSymlink(dir: string, buildKey: string): void {
+	let target = `./index_${buildKey}.html`
+	let filepath = path.join(dir, 'index.html')
+	let tempPath = path.join(dir, 'index.html.tmp')
+
+	// create new symlink next to the existing one (if present)
+	fse.rmSync(tempPath, { force: true })
+	fse.symlinkSync(target, tempPath)
+
+	// and replace it atomically, so index.html never goes missing
+	fse.renameSync(tempPath, filepath)
+}
@@ -0,0 +1,112 @@
+import * as fse from 'fs-extra'
+import path from 'path'
+import { z } from 'zod'
+import type { BuildKey } from '../builds/build-key'
+import { toReadableDateString } from '../utils/date/readable-date-string'
+import { ApiError } from '../utils/error/api-error'
+import type { Releases } from './releases'
+
+/**
+ * Staged rollout of the candidate release, kept in `releases.json` next to the current release
+ * Players are split into 100 buckets, players of the buckets below `percentage` get the candidate
+ */
+export type Rollout = {
+	candidate: BuildKey
+	percentage: number
+	startedAt: string
+	startedBy: string
+	updatedAt: string
+}
+
+/**
+ * Cookie with the bucket of the player, so the player keeps getting the same release while the percentage grows
+ */
+export const ROLLOUT_COOKIE_NAME = 'release_bucket'
+
+export const rolloutPercentageSchema = z.coerce
+	.number()
+	.int()
+	.min(0)
+	.max(100)
+	.describe('percentage of players that get the candidate release')
+
+export const rolloutRequestSchema = z.object({
+	percentage: rolloutPercentageSchema,
+})
+
+export function createRollout(candidate: BuildKey, percentage: number, identity: string): Rollout {
+	const now = toReadableDateString(Date.now())
+
+	return { candidate, percentage, startedAt: now, startedBy: identity, updatedAt: now }
+}
+
+/**
+ * @returns releases of the platform with the rollout in progress
+ * @throws {ApiError} if the platform doesn't have a rollout in progress
+ */
+export function readRolloutReleases(releasesDir: string): Releases & { rollout: Rollout } {
+	const releasesJsonPath = path.join(releasesDir, 'releases.json')
+	const releases: Releases | null = fse.existsSync(releasesJsonPath) ? fse.readJsonSync(releasesJsonPath) : null
+
+	if (!releases?.rollout) {
+		throw new ApiError(404, `platform '${path.basename(releasesDir)}' doesn't have a rollout in progress`)
+	}
+
+	return releases as Releases & { rollout: Rollout }
+}
+
+/**
+ * Replaces `index.html` symlink with the entry file that loads the current or the candidate release
+ * depending on the bucket of the player, `updateIndexHtmlSymlink` turns it back into the symlink
+ */
+export function writeRolloutIndexHtml(releasesDir: string, current: string, rollout: Rollout): void {
+	const filepath = path.join(releasesDir, 'index.html')
+	const tempPath = path.join(releasesDir, 'index.html.tmp')
+
+	fse.rmSync(tempPath, { force: true })
+	fse.writeFileSync(
+		tempPath,
+		createRolloutIndexHtml(`index_${current}.html`, `index_${rollout.candidate}.html`, rollout),
+	)
+
+	// replace atomically, so index.html never goes missing
+	fse.renameSync(tempPath, filepath)
+}
+
+function createRolloutIndexHtml(currentIndex: string, candidateIndex: string, rollout: Rollout): string {
+	return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<!-- staged rollout of ${rollout.candidate}: ${rollout.percentage}% -->
+<script>
+(function () {
+	var match = document.cookie.match(/(?:^|; )${ROLLOUT_COOKIE_NAME}=(\\d+)/)
+	var bucket = match ? Number(match[1]) : Math.floor(Math.random() * 100)
+	if (!match) {
+		document.cookie = '${ROLLOUT_COOKIE_NAME}=' + bucket + '; path=/; max-age=31536000; SameSite=Lax'
+	}
+
+	var index = bucket < ${rollout.percentage} ? '${candidateIndex}' : '${currentIndex}'
+
+	// the release is written into this document, so the url and relative paths stay the same
+	fetch(index, { cache: 'no-cache' })
+		.then(function (response) {
+			if (!response.ok) throw new Error(response.statusText)
+			return response.text()
+		})
+		.then(function (html) {
+			document.open()
+			document.write(html)
+			document.close()
+		})
+		.catch(function () {
+			location.replace(index + location.search + location.hash)
+		})
+})()
+</script>
+</head>
+<body></body>
+</html>
+`
+}
@@ -0,0 +1,74 @@
+import * as fse from 'fs-extra'
+import path from 'path'
+import { z } from 'zod'
+import { isBuildKey, type BuildKey } from '../builds/build-key'
+import { removeReleaseFilesCache } from '../diff/build-files'
+import { collectGarbage } from '../store/object-store'
+import { toReadableDateString } from '../utils/date/readable-date-string'
+import { writeJsonAtomic } from '../utils/fs/write-json-atomic'
+import type { ReleaseInfo, Releases } from './releases'
+
+export const yankRequestSchema = z.object({
+	reason: z.string().trim().min(1).optional().describe('why the release is yanked, e.g. "crashes on startup"'),
+	rollbackTo: z
+		.string()
+		.refine((value) => isBuildKey(value), 'must be a build key (e.g. master-42)')
+		.optional()
+		.describe('release that becomes current, required when the current release is yanked'),
+})
+
+/**
+ * Tombstone of a release that was removed with /yank, kept in `releases.json`
+ * so the build is not published again by mistake (`/publish?force=true` publishes it anyway)
+ */
+export type YankedRelease = {
+	key: BuildKey
+	releasedAt: string
+	reason?: string
+	yankedAt: string
+	yankedBy: string
+}
+
+/**
+ * Removes the release from `releases.json` and deletes the files that are not used by other releases
+ * The caller is responsible for switching the current release before yanking it
+ * @returns paths of the removed files relative to the releases dir
+ */
+export function yankRelease(
+	releasesDir: string,
+	releases: Releases,
+	release: ReleaseInfo,
+	options: { reason?: string; identity: string },
+): string[] {
+	const readFiles = (item: ReleaseInfo) => fse.readJsonSync(path.join(releasesDir, item.files)) as string[]
+
+	const otherReleases = releases.builds.filter((item) => item.key !== release.key)
+
+	// files with the same names could be published by other releases (e.g. assets without hashes in their names)
+	const filesToKeep = new Set(['index.html', 'releases.json', ...otherReleases.flatMap(readFiles)])
+	const filesToRemove = readFiles(release).filter((item) => !filesToKeep.has(item))
+
+	releases.builds = otherReleases
+	releases.yanked = [
+		...(releases.yanked ?? []).filter((item) => item.key !== release.key),
+		{
+			key: release.key,
+			releasedAt: release.releasedAt,
+			...(options.reason && { reason: options.reason }),
+			yankedAt: toReadableDateString(Date.now()),
+			yankedBy: options.identity,
+		},
+	]
+
+	// releases.json is updated first, so the release is never listed without its files
+	writeJsonAtomic(path.join(releasesDir, 'releases.json'), releases)
+
+	filesToRemove.forEach((item) => fse.rmSync(path.join(releasesDir, item), { force: true }))
+
+	// remove objects that were referenced only by the removed files
+	collectGarbage()
+
+	removeReleaseFilesCache(releasesDir, release.key)
+
+	return filesToRemove.sort()
+}
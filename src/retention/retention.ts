@@ -0,0 +1,96 @@
+import * as fse from 'fs-extra'
+import path from 'path'
+import { getPendingDeploys } from '../builds/pending-deploys'
+import { env as ENV } from '../env'
+import { readGameConfig } from '../games/game-config'
+import { getDeployDates, getDeployedAt } from '../history/deployment-history'
+import { getDeploymentPins } from '../pins/pins'
+import { fromReadableDateString } from '../utils/date/readable-date-string'
+
+/**
+ * Build is kept if it is one of the newest `keepLast` builds or if it is newer than `keepDays` (when set)
+ * Current release, the build the `latest` symlink points to, pinned builds and pending deploys are always kept
+ */
+export type RetentionPolicy = {
+	keepLast: number
+	keepDays: number | null
+}
+
+const DEFAULT_DEPLOYMENTS_POLICY: RetentionPolicy = { keepLast: 10, keepDays: null }
+
+const DEFAULT_RELEASES_POLICY: RetentionPolicy = { keepLast: 5, keepDays: null }
+
+/**
+ * Environment override takes precedence over the game default, which takes precedence over the built-in default
+ */
+export function getDeploymentsRetentionPolicy(game: string, env: string): RetentionPolicy {
+	const config = readGameConfig(game).retention?.deployments
+
+	return { ...DEFAULT_DEPLOYMENTS_POLICY, ...config?.default, ...config?.envs?.[env] }
+}
+
+/**
+ * Platform override takes precedence over the game default, which takes precedence over the built-in default
+ */
+export function getReleasesRetentionPolicy(game: string, platform: string): RetentionPolicy {
+	const config = readGameConfig(game).retention?.releases
+
+	return { ...DEFAULT_RELEASES_POLICY, ...config?.default, ...config?.platforms?.[platform] }
+}
+
+/**
+ * @param builds - builds sorted from newest to oldest
+ * @param options.getDate - timestamp the age of the build is counted from
+ * @param options.isProtected - builds that must be kept regardless of the policy
+ */
+export function applyRetentionPolicy<T>(
+	builds: T[],
+	policy: RetentionPolicy,
+	options: { getDate: (build: T) => number; isProtected: (build: T) => boolean },
+): { keep: T[]; remove: T[] } {
+	const minDate = policy.keepDays === null ? Infinity : Date.now() - policy.keepDays * 24 * 60 * 60 * 1000
+
+	const keep: T[] = []
+	const remove: T[] = []
+
+	builds.forEach((build, index) => {
+		if (index < policy.keepLast || options.getDate(build) >= minDate || options.isProtected(build)) {
+			keep.push(build)
+		} else {
+			remove.push(build)
+		}
+	})
+
+	return { keep, remove }
+}
+
+/**
+ * @returns versions of the environment builds to keep and to remove, sorted from newest to oldest
+ */
+export function planDeploymentsRetention(
+	game: string,
+	env: string,
+	policy: RetentionPolicy,
+): { keep: string[]; remove: string[] } {
+	const envDir = path.join(ENV.GAME_BUILDS_DIR, game, env)
+
+	const allBuilds = fse
+		.readdirSync(envDir)
+		.filter((item) => Number.isInteger(parseInt(item)) && fse.statSync(path.join(envDir, item)).isDirectory())
+		.sort((a, b) => parseInt(b) - parseInt(a))
+
+	const latestSymlinkPath = path.join(envDir, 'latest')
+	const latestBuild = fse.existsSync(latestSymlinkPath) ? path.basename(fse.realpathSync(latestSymlinkPath)) : null
+
+	const pins = getDeploymentPins(game, env)
+
+	// build dirs of the pending deploys are being uploaded right now
+	const pendingBuilds = getPendingDeploys(game, env).map((item) => item.version.toString())
+
+	const deployDates = getDeployDates(game, env)
+
+	return applyRetentionPolicy(allBuilds, policy, {
+		getDate: (build) => fromReadableDateString(getDeployedAt(deployDates, path.join(envDir, build))),
+		isProtected: (build) => build === latestBuild || build in pins || pendingBuilds.includes(build),
+	})
+}
@@ -0,0 +1,158 @@
+import * as fse from 'fs-extra'
+import { randomUUID } from 'node:crypto'
+import { z } from 'zod'
+import { isBuildKey } from '../builds/build-key'
+import { withLock } from '../locks/locks'
+import { getStateDir } from '../state-dir'
+import { toReadableDateString } from '../utils/date/readable-date-string'
+import { ApiError } from '../utils/error/api-error'
+import { writeJsonAtomic } from '../utils/fs/write-json-atomic'
+
+export const scheduleRequestSchema = z.object({
+	type: z.enum(['publish', 'rollback']).describe('route the action calls'),
+	platform: z.string().min(1),
+	channel: z.string().optional().describe('release channel, `prod` by default'),
+	buildKey: z
+		.string()
+		.refine((value) => isBuildKey(value), 'must be a build key (e.g. master-42)')
+		.optional()
+		.describe('build to publish or roll back to, resolved at the execution time like in /publish and /rollback'),
+	runAt: z
+		.string()
+		.datetime({ offset: true })
+		.describe('ISO 8601 timestamp with a timezone, e.g. 2024-03-20T10:00:00Z'),
+})
+
+export type ScheduleRequest = z.infer<typeof scheduleRequestSchema>
+
+/**
+ * Publish or rollback that is executed by the server at `runAt`
+ * Actions are kept in the state dir until they are executed or canceled, results are recorded in the release history
+ */
+export type ScheduledAction = Omit<ScheduleRequest, 'channel'> & {
+	id: string
+	game: string
+	channel: string
+	createdAt: string
+	createdBy: string
+}
+
+function getSchedulePath(game: string): string {
+	return getStateDir('games', game, 'schedule.json')
+}
+
+function getScheduleLockKey(game: string): string {
+	return `${game}/.schedule`
+}
+
+/**
+ * @returns scheduled actions of the game sorted by execution time
+ */
+export function getScheduledActions(game: string): ScheduledAction[] {
+	const schedulePath = getSchedulePath(game)
+	if (!fse.existsSync(schedulePath)) {
+		return []
+	}
+
+	const actions = fse.readJsonSync(schedulePath) as ScheduledAction[]
+
+	return actions.sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt))
+}
+
+function writeScheduledActions(game: string, actions: ScheduledAction[]): void {
+	writeJsonAtomic(getSchedulePath(game), actions)
+}
+
+/**
+ * @param channel - resolved channel of the action
+ * @throws {ApiError} if `runAt` is in the past
+ */
+export async function scheduleAction(
+	game: string,
+	channel: string,
+	request: ScheduleRequest,
+	identity: string,
+): Promise<ScheduledAction> {
+	if (Date.parse(request.runAt) <= Date.now()) {
+		throw new ApiError(400, `runAt '${request.runAt}' is in the past`)
+	}
+
+	const action: ScheduledAction = {
+		id: randomUUID(),
+		type: request.type,
+		game,
+		platform: request.platform,
+		channel,
+		...(request.buildKey && { buildKey: request.buildKey }),
+		runAt: new Date(request.runAt).toISOString(),
+		createdAt: toReadableDateString(Date.now()),
+		createdBy: identity,
+	}
+
+	await withLock(getScheduleLockKey(game), 'schedule action', { waitMs: 5000 }, () => {
+		writeScheduledActions(game, [...getScheduledActions(game), action])
+	})
+
+	return action
+}
+
+/**
+ * @throws {ApiError} if the action doesn't exist (or was already executed)
+ */
+export async function cancelScheduledAction(game: string, id: string): Promise<ScheduledAction> {
+	return withLock(getScheduleLockKey(game), 'cancel scheduled action', { waitMs: 5000 }, () => {
+		const actions = getScheduledActions(game)
+
+		const action = actions.find((item) => item.id === id)
+		if (!action) {
+			throw new ApiError(404, `scheduled action '${id}' doesn't exist`)
+		}
+
+		writeScheduledActions(
+			game,
+			actions.filter((item) => item.id !== id),
+		)
+
+		return action
+	})
+}
+
+/**
+ * Takes the due actions of all games out of the schedule and executes them one by one
+ * Actions are removed before the execution, so an action is never executed twice (e.g. by several server instances)
+ * @param execute - performs the action, must not throw
+ * @returns executed actions
+ */
+export async function runDueScheduledActions(execute: (action: ScheduledAction) => Promise<void>) {
+	const gamesDir = getStateDir('games')
+	if (!fse.existsSync(gamesDir)) {
+		return []
+	}
+
+	const games = fse.readdirSync(gamesDir).filter((game) => fse.existsSync(getSchedulePath(game)))
+
+	const executed: ScheduledAction[] = []
+
+	for (const game of games) {
+		const dueActions = await withLock(getScheduleLockKey(game), 'run scheduled actions', { waitMs: 5000 }, () => {
+			const actions = getScheduledActions(game)
+			const due = actions.filter((item) => Date.parse(item.runAt) <= Date.now())
+
+			if (due.length > 0) {
+				writeScheduledActions(
+					game,
+					actions.filter((item) => !due.includes(item)),
+				)
+			}
+
+			return due
+		})
+
+		for (const action of dueActions) {
+			await execute(action)
+			executed.push(action)
+		}
+	}
+
+	return executed
+}
@@ -0,0 +1,128 @@
+import micromatch from 'micromatch'
+import path from 'path'
+import { diffBuildFiles, type BuildFiles } from '../diff/build-files'
+import { readGameConfig, type GameConfig } from '../games/game-config'
+
+export type SizeBudgets = NonNullable<NonNullable<GameConfig['sizeBudgets']>['default']>
+
+export type SizeBudgetViolation = {
+	/** `maxTotalSize`, `maxFileSize` or the glob pattern */
+	budget: string
+	limit: number
+	size: number
+	/** file that exceeds `maxFileSize` */
+	path?: string
+}
+
+export type SizeReport = {
+	totalSize: number
+	filesNum: number
+	largestFiles: { path: string; size: number }[]
+	/** total size of the files by extension, e.g. `{ ".js": 1024 }` */
+	byExtension: Record<string, number>
+	/** comparison with the build the `latest` symlink pointed to before the deploy */
+	previous: {
+		version: string
+		totalSize: number
+		sizeDelta: number
+		addedNum: number
+		removedNum: number
+		modifiedNum: number
+	} | null
+	budgets: {
+		mode: 'warn' | 'block'
+		violations: SizeBudgetViolation[]
+	}
+}
+
+const LARGEST_FILES_NUM = 10
+
+/**
+ * Environment override takes precedence over the game default
+ * @returns budgets of the environment or null if the game doesn't have any
+ */
+export function getSizeBudgets(game: string, env: string): SizeBudgets | null {
+	const config = readGameConfig(game).sizeBudgets
+	if (!config?.default && !config?.envs?.[env]) {
+		return null
+	}
+
+	return { ...config.default, ...config.envs?.[env] }
+}
+
+/**
+ * @param previous - files of the previous build of the environment
+ */
+export function createSizeReport(
+	files: BuildFiles,
+	budgets: SizeBudgets | null,
+	previous: { version: string; files: BuildFiles } | null,
+): SizeReport {
+	const entries = Object.entries(files).map(([relativePath, file]) => ({ path: relativePath, size: file.size }))
+
+	const totalSize = entries.reduce((acc, file) => acc + file.size, 0)
+
+	const byExtension: Record<string, number> = {}
+	entries.forEach((file) => {
+		const extension = path.extname(file.path) || path.basename(file.path)
+		byExtension[extension] = (byExtension[extension] ?? 0) + file.size
+	})
+
+	let previousReport: SizeReport['previous'] = null
+	if (previous) {
+		const diff = diffBuildFiles(previous.files, files)
+		previousReport = {
+			version: previous.version,
+			totalSize: totalSize - diff.sizeDelta,
+			sizeDelta: diff.sizeDelta,
+			addedNum: diff.added.length,
+			removedNum: diff.removed.length,
+			modifiedNum: diff.modified.length,
+		}
+	}
+
+	return {
+		totalSize,
+		filesNum: entries.length,
+		largestFiles: [...entries].sort((a, b) => b.size - a.size).slice(0, LARGEST_FILES_NUM),
+		byExtension,
+		previous: previousReport,
+		budgets: {
+			mode: budgets?.mode ?? 'warn',
+			violations: budgets ? checkSizeBudgets(entries, totalSize, budgets) : [],
+		},
+	}
+}
+
+function checkSizeBudgets(
+	files: { path: string; size: number }[],
+	totalSize: number,
+	budgets: SizeBudgets,
+): SizeBudgetViolation[] {
+	const violations: SizeBudgetViolation[] = []
+
+	if (budgets.maxTotalSize !== undefined && totalSize > budgets.maxTotalSize) {
+		violations.push({ budget: 'maxTotalSize', limit: budgets.maxTotalSize, size: totalSize })
+	}
+
+	if (budgets.maxFileSize !== undefined) {
+		const limit = budgets.maxFileSize
+		files
+			.filter((file) => file.size > limit)
+			.forEach((file) => violations.push({ budget: 'maxFileSize', limit, size: file.size, path: file.path }))
+	}
+
+	Object.entries(budgets.globs ?? {}).forEach(([pattern, limit]) => {
+		// patterns without `/` are matched against the file name, e.g. `*.js` matches `assets/main.js`
+		const options = { basename: !pattern.includes('/'), dot: true }
+		const size = files
+			.filter((file) => micromatch.isMatch(file.path, pattern, options))
+			.reduce((acc, file) => acc + file.size, 0)
+
+		if (size > limit) {
+			violations.push({ budget: pattern, limit, size })
+		}
+	})
+
+	return violations
+}
@@ -0,0 +1,10 @@
+import path from 'path'
+import { env as ENV } from './env'
+
+/**
+ * Directory for the service own data (uploads, etc.)
+ * It is located inside GAME_BUILDS_DIR so its files can be renamed into build directories without copying
+ */
+export function getStateDir(...segments: string[]): string {
+	return path.join(ENV.GAME_BUILDS_DIR, '.release-o-matic', ...segments)
+}
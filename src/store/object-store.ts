@@ -0,0 +1,194 @@
+import * as fse from 'fs-extra'
+import { createHash } from 'node:crypto'
+import path from 'path'
+import { getStateDir } from '../state-dir'
+
+/**
+ * Content-addressed file store
+ *
+ * Every unique file is stored once as `objects/<hash[0:2]>/<hash>` and builds/releases reference it via hardlinks.
+ * Object is referenced as long as its link count is greater than 1, so no separate index is needed
+ * and garbage collection is just removing objects with a single link.
+ *
+ * Files are never modified in place (rsync, archive extraction and publish write new files and rename them),
+ * otherwise a change to one build would leak into every build sharing the object.
+ */
+
+export function getObjectsDir(): string {
+	return getStateDir('objects')
+}
+
+export function getObjectPath(hash: string): string {
+	return path.join(getObjectsDir(), hash.slice(0, 2), hash)
+}
+
+/**
+ * @returns sha256 hex digest of the file, the file is read in chunks to avoid loading large assets into memory
+ */
+export function hashFile(filepath: string): string {
+	const hash = createHash('sha256')
+	const chunk = new Uint8Array(1024 * 1024)
+	const fd = fse.openSync(filepath, 'r')
+
+	try {
+		let bytesRead = 0
+		while ((bytesRead = fse.readSync(fd, chunk, 0, chunk.length, null)) > 0) {
+			hash.update(chunk.subarray(0, bytesRead))
+		}
+	} finally {
+		fse.closeSync(fd)
+	}
+
+	return hash.digest('hex')
+}
+
+export function hasObject(hash: string): boolean {
+	return fse.existsSync(getObjectPath(hash))
+}
+
+/**
+ * Places a hardlink to the object at `filepath`, existing file is replaced
+ */
+export function linkObject(hash: string, filepath: string): void {
+	fse.ensureDirSync(path.dirname(filepath))
+
+	if (fse.existsSync(filepath)) {
+		replaceWithLink(getObjectPath(hash), filepath)
+	} else {
+		fse.linkSync(getObjectPath(hash), filepath)
+	}
+}
+
+/**
+ * Moves files of the directory into the store, each file is replaced with a hardlink to its object
+ * Files that already have more than one link are already shared via the store and are skipped without hashing
+ * @returns number of new objects and number of files that were replaced with a link to an existing object
+ */
+export function ingestDir(dir: string): { ingested: number; deduplicated: number } {
+	let ingested = 0
+	let deduplicated = 0
+
+	listFiles(dir).forEach((relativePath) => {
+		const filepath = path.join(dir, relativePath)
+		const stats = fse.lstatSync(filepath)
+		if (stats.nlink > 1) {
+			return
+		}
+
+		const objectPath = getObjectPath(hashFile(filepath))
+
+		if (!fse.existsSync(objectPath)) {
+			fse.ensureDirSync(path.dirname(objectPath))
+			fse.linkSync(filepath, objectPath)
+			ingested++
+		} else {
+			replaceWithLink(objectPath, filepath)
+			deduplicated++
+		}
+	})
+
+	return { ingested, deduplicated }
+}
+
+/**
+ * Materializes `srcDir` files in `destDir` via hardlinks, existing files in `destDir` are replaced
+ * Falls back to copying if hardlinks are not supported (e.g. `destDir` is on another filesystem)
+ */
+export function linkDir(srcDir: string, destDir: string): void {
+	fse.ensureDirSync(destDir)
+
+	listFiles(srcDir).forEach((relativePath) => {
+		const srcPath = path.join(srcDir, relativePath)
+		const destPath = path.join(destDir, relativePath)
+
+		fse.ensureDirSync(path.dirname(destPath))
+
+		if (fse.existsSync(destPath)) {
+			replaceWithLink(srcPath, destPath)
+			return
+		}
+
+		try {
+			fse.linkSync(srcPath, destPath)
+		} catch (error) {
+			if (!isLinkNotSupportedError(error)) {
+				throw error
+			}
+
+			fse.copySync(srcPath, destPath)
+		}
+	})
+}
+
+/**
+ * Removes objects that are not referenced by any build or release
+ * @returns number of removed objects and freed bytes
+ */
+export function collectGarbage(): { removedObjects: number; freedBytes: number } {
+	const objectsDir = getObjectsDir()
+	if (!fse.existsSync(objectsDir)) {
+		return { removedObjects: 0, freedBytes: 0 }
+	}
+
+	let removedObjects = 0
+	let freedBytes = 0
+
+	listFiles(objectsDir).forEach((relativePath) => {
+		const objectPath = path.join(objectsDir, relativePath)
+		const stats = fse.lstatSync(objectPath)
+		if (stats.nlink > 1) {
+			return
+		}
+
+		fse.rmSync(objectPath)
+		removedObjects++
+		freedBytes += stats.size
+	})
+
+	return { removedObjects, freedBytes }
+}
+
+/**
+ * @returns paths of all regular files inside the directory (relative to it), symlinks are skipped
+ */
+export function listFiles(dir: string, relativeDir = ''): string[] {
+	return fse.readdirSync(path.join(dir, relativeDir)).flatMap((item) => {
+		const relativePath = path.join(relativeDir, item)
+		const stats = fse.lstatSync(path.join(dir, relativePath))
+
+		if (stats.isDirectory()) {
+			return listFiles(dir, relativePath)
+		}
+
+		return stats.isFile() ? [relativePath] : []
+	})
+}
+
+/**
+ * Atomically replaces `filepath` with a hardlink to `targetPath`
+ */
+function replaceWithLink(targetPath: string, filepath: string): void {
+	if (fse.lstatSync(targetPath).ino === fse.lstatSync(filepath).ino) {
+		return
+	}
+
+	const tempPath = `${filepath}.link-tmp`
+	fse.rmSync(tempPath, { force: true })
+
+	try {
+		fse.linkSync(targetPath, tempPath)
+	} catch (error) {
+		if (!isLinkNotSupportedError(error)) {
+			throw error
+		}
+
+		fse.copySync(targetPath, tempPath)
+	}
+
+	fse.renameSync(tempPath, filepath)
+}
+
+function isLinkNotSupportedError(error: unknown): boolean {
+	const code = (error as NodeJS.ErrnoException)?.code
+	return code === 'EXDEV' || code === 'EPERM' || code === 'ENOTSUP'
+}
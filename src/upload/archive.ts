@@ -0,0 +1,168 @@
+import * as fse from 'fs-extra'
+import { randomUUID } from 'node:crypto'
+import { createWriteStream } from 'node:fs'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import type { ReadableStream as WebReadableStream } from 'node:stream/web'
+import path from 'path'
+import * as tar from 'tar'
+import yauzl from 'yauzl'
+import { ApiError } from '../utils/error/api-error'
+import { getErrorMessage } from '../utils/error/utils'
+import { resolveInsideDir } from '../utils/path/resolve-inside-dir'
+
+export type ArchiveFormat = 'zip' | 'tar'
+
+/**
+ * Saves request body to a temporary file inside `tempDir`
+ * @returns path to the saved file
+ */
+export async function saveBodyToFile(body: ReadableStream<Uint8Array>, tempDir: string): Promise<string> {
+	fse.ensureDirSync(tempDir)
+
+	const filepath = path.join(tempDir, `${randomUUID()}.upload`)
+
+	await pipeline(Readable.fromWeb(body as unknown as WebReadableStream<Uint8Array>), createWriteStream(filepath))
+
+	return filepath
+}
+
+/**
+ * Detects archive format by the file signature
+ * gzip-compressed archives are treated as tar, `tar` unpacks them transparently
+ */
+export function detectArchiveFormat(filepath: string): ArchiveFormat | null {
+	const header = new Uint8Array(512)
+	const fd = fse.openSync(filepath, 'r')
+	const bytesRead = fse.readSync(fd, header, 0, header.length, 0)
+	fse.closeSync(fd)
+
+	// PK\x03\x04 (or PK\x05\x06 for an empty zip)
+	if (bytesRead >= 4 && header[0] === 0x50 && header[1] === 0x4b && (header[2] === 0x03 || header[2] === 0x05)) {
+		return 'zip'
+	}
+
+	// gzip magic number
+	if (bytesRead >= 2 && header[0] === 0x1f && header[1] === 0x8b) {
+		return 'tar'
+	}
+
+	// ustar magic at offset 257
+	if (bytesRead >= 262 && Buffer.from(header).toString('ascii', 257, 262) === 'ustar') {
+		return 'tar'
+	}
+
+	return null
+}
+
+/**
+ * Extracts zip, tar or tar.gz archive into `destDir`
+ * Only regular files and directories are extracted, entries with absolute paths, `..` segments or links are rejected
+ * @returns list of extracted files relative to `destDir`
+ */
+export async function extractArchive(filepath: string, destDir: string): Promise<string[]> {
+	const format = detectArchiveFormat(filepath)
+	if (!format) {
+		throw new ApiError(415, `unsupported archive format, expected zip, tar or tar.gz`)
+	}
+
+	fse.ensureDirSync(destDir)
+
+	return format === 'zip' ? extractZip(filepath, destDir) : extractTar(filepath, destDir)
+}
+
+async function extractTar(filepath: string, destDir: string): Promise<string[]> {
+	const files: string[] = []
+	const rejected: string[] = []
+
+	const extraction = tar.x({
+		file: filepath,
+		cwd: destDir,
+		strict: true,
+		preservePaths: false,
+		filter: (entryPath, entry) => {
+			const type = 'type' in entry ? entry.type : null
+
+			// `./` entry of the archive root is `destDir` itself
+			if (type === 'Directory' && path.resolve(destDir, entryPath) === destDir) {
+				return false
+			}
+
+			if ((type !== 'File' && type !== 'Directory') || resolveInsideDir(destDir, entryPath) === null) {
+				rejected.push(entryPath)
+				return false
+			}
+
+			if (type === 'File') {
+				files.push(path.normalize(entryPath))
+			}
+
+			return true
+		},
+	})
+
+	await extraction.catch((error) => {
+		// with `strict` broken archives fail the extraction (TAR_* errors, Z_* errors of gzip), disk errors stay 500
+		const code = (error as NodeJS.ErrnoException)?.code ?? ''
+		if (code.startsWith('TAR_') || code.startsWith('Z_')) {
+			throw new ApiError(400, `invalid tar archive (${getErrorMessage(error)})`)
+		}
+
+		throw error
+	})
+
+	if (rejected.length > 0) {
+		throw new ApiError(400, `archive contains unsafe entries`, { entries: rejected })
+	}
+
+	return files
+}
+
+async function extractZip(filepath: string, destDir: string): Promise<string[]> {
+	const files: string[] = []
+
+	const zip = await yauzl.openPromise(filepath, { lazyEntries: true, strictFileNames: true }).catch((error) => {
+		throw new ApiError(400, `invalid zip archive (${getErrorMessage(error)})`)
+	})
+
+	try {
+		await new Promise<void>((resolve, reject) => {
+			// yauzl reports invalid and unsafe entry names through the error event
+			zip.on('error', (error) => reject(new ApiError(400, `invalid zip archive (${getErrorMessage(error)})`)))
+			zip.on('end', resolve)
+			zip.on('entry', async (entry: yauzl.Entry) => {
+				try {
+					const entryPath = resolveInsideDir(destDir, entry.fileName)
+					if (entryPath === null || isZipSymlink(entry)) {
+						throw new ApiError(400, `archive contains unsafe entries`, { entries: [entry.fileName] })
+					}
+
+					if (entry.fileName.endsWith('/')) {
+						fse.ensureDirSync(entryPath)
+					} else {
+						fse.ensureDirSync(path.dirname(entryPath))
+						await pipeline(await zip.openReadStreamPromise(entry), createWriteStream(entryPath))
+						files.push(path.relative(destDir, entryPath))
+					}
+
+					zip.readEntry()
+				} catch (error) {
+					reject(error)
+				}
+			})
+
+			zip.readEntry()
+		})
+	} finally {
+		zip.close()
+	}
+
+	return files
+}
+
+/**
+ * Zip stores the unix file mode in the high 16 bits of the external attributes, yauzl doesn't interpret it
+ */
+function isZipSymlink(entry: yauzl.Entry): boolean {
+	return ((entry.externalFileAttributes >>> 16) & 0o170000) === 0o120000
+}
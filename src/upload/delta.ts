@@ -0,0 +1,83 @@
+import * as fse from 'fs-extra'
+import path from 'path'
+import { z } from 'zod'
+import { hasObject, linkObject, listFiles } from '../store/object-store'
+import { ApiError } from '../utils/error/api-error'
+import { resolveInsideDir } from '../utils/path/resolve-inside-dir'
+
+export const deltaManifestSchema = z.object({
+	files: z
+		.record(z.string(), z.string().regex(/^[0-9a-f]{64}$/, 'must be a sha256 hex digest'))
+		.describe('build files (relative paths) and their sha256 hashes'),
+})
+
+export type DeltaManifest = z.infer<typeof deltaManifestSchema>
+
+/**
+ * Assembles the build directory from the files that are already in the object store
+ * Files that are not listed in the manifest are removed from the build directory (they were copied from the previous build by /preDeploy)
+ * @returns files that the server doesn't have and that should be uploaded
+ */
+export function applyDeltaManifest(buildDir: string, manifest: DeltaManifest) {
+	const unsafePaths = Object.keys(manifest.files).filter((filepath) => resolveInsideDir(buildDir, filepath) === null)
+	if (unsafePaths.length > 0) {
+		throw new ApiError(400, `manifest contains unsafe paths`, { paths: unsafePaths })
+	}
+
+	const conflictingPaths = getConflictingPaths(Object.keys(manifest.files))
+	if (conflictingPaths.length > 0) {
+		throw new ApiError(400, `manifest contains paths that are both files and directories`, {
+			paths: conflictingPaths,
+		})
+	}
+
+	const expectedFiles = new Set(Object.keys(manifest.files).map((filepath) => path.normalize(filepath)))
+
+	const removed = listFiles(buildDir).filter((filepath) => !expectedFiles.has(filepath))
+	removed.forEach((filepath) => fse.rmSync(path.join(buildDir, filepath)))
+
+	const linked: string[] = []
+	const missing: string[] = []
+
+	Object.entries(manifest.files).forEach(([filepath, hash]) => {
+		const destPath = path.join(buildDir, filepath)
+
+		// directory of the previous build in place of the file, its files are not in the manifest and are already removed
+		if (fse.existsSync(destPath) && fse.lstatSync(destPath).isDirectory()) {
+			fse.rmSync(destPath, { recursive: true })
+		}
+
+		if (hasObject(hash)) {
+			linkObject(hash, destPath)
+			linked.push(filepath)
+		} else {
+			// stale file from the previous build must not pass for the new one
+			fse.rmSync(destPath, { force: true })
+			missing.push(filepath)
+		}
+	})
+
+	return { linked, missing, removed }
+}
+
+/**
+ * @returns paths that are listed more than once (e.g. `a/b` and `a/./b`) or are parent directories of other paths
+ */
+function getConflictingPaths(filepaths: string[]): string[] {
+	const normalized = filepaths.map((filepath) => path.normalize(filepath))
+
+	const dirs = new Set(
+		normalized.flatMap((filepath) => {
+			const parents: string[] = []
+			for (let dir = path.dirname(filepath); dir !== '.'; dir = path.dirname(dir)) {
+				parents.push(dir)
+			}
+			return parents
+		}),
+	)
+
+	const isConflicting = (filepath: string) =>
+		dirs.has(filepath) || normalized.indexOf(filepath) !== normalized.lastIndexOf(filepath)
+
+	return filepaths.filter((_, i) => isConflicting(normalized[i]))
+}
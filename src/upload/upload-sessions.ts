@@ -0,0 +1,222 @@
+import * as fse from 'fs-extra'
+import { randomUUID } from 'node:crypto'
+import { createReadStream, createWriteStream } from 'node:fs'
+import { pipeline } from 'node:stream/promises'
+import path from 'path'
+import { getStateDir } from '../state-dir'
+import { fromReadableDateString, toReadableDateString } from '../utils/date/readable-date-string'
+import { ApiError } from '../utils/error/api-error'
+import { saveBodyToFile } from './archive'
+
+/**
+ * Chunked upload of a build archive, tied to `game/env/version`
+ * Chunks are stored as separate files, so an interrupted upload can be resumed by sending only the missing chunks
+ */
+export type UploadSession = {
+	id: string
+	game: string
+	env: string
+	version: string
+	/**
+	 * Number of chunks, if it is known in advance
+	 */
+	totalChunks: number | null
+	createdAt: string
+	updatedAt: string
+}
+
+function getSessionsDir(): string {
+	return getStateDir('upload-sessions')
+}
+
+function getSessionDir(id: string): string {
+	return path.join(getSessionsDir(), id)
+}
+
+function getChunksDir(id: string): string {
+	return path.join(getSessionDir(id), 'chunks')
+}
+
+function saveSession(session: UploadSession): void {
+	fse.outputJsonSync(path.join(getSessionDir(session.id), 'session.json'), session, { spaces: '\t' })
+}
+
+export function isUploadSessionId(id: string): boolean {
+	return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(id)
+}
+
+export function getUploadSessions(): UploadSession[] {
+	const sessionsDir = getSessionsDir()
+	if (!fse.existsSync(sessionsDir)) {
+		return []
+	}
+
+	return fse
+		.readdirSync(sessionsDir)
+		.filter((id) => isUploadSessionId(id) && fse.existsSync(path.join(sessionsDir, id, 'session.json')))
+		.map((id) => fse.readJsonSync(path.join(sessionsDir, id, 'session.json')) as UploadSession)
+}
+
+/**
+ * @throws {ApiError} if the session doesn't exist
+ */
+export function getUploadSession(id: string): UploadSession {
+	const sessionJsonPath = path.join(getSessionDir(id), 'session.json')
+	if (!isUploadSessionId(id) || !fse.existsSync(sessionJsonPath)) {
+		throw new ApiError(404, `upload session '${id}' doesn't exist`)
+	}
+
+	return fse.readJsonSync(sessionJsonPath) as UploadSession
+}
+
+/**
+ * Starts a new upload session or returns the unfinished one for the same build, so the client can resume it
+ * @throws {ApiError} if the resumed session already has chunks beyond the new `totalChunks`
+ */
+export function startUploadSession(
+	game: string,
+	env: string,
+	version: string,
+	totalChunks: number | null,
+): { session: UploadSession; resumed: boolean } {
+	const existing = getUploadSessions().find(
+		(item) => item.game === game && item.env === env && item.version === version,
+	)
+
+	if (existing) {
+		// all received chunks are joined on finalize, so the chunks above the new total would end up in the archive
+		const lastReceived = getReceivedChunks(existing.id).at(-1)
+		if (totalChunks !== null && lastReceived !== undefined && lastReceived >= totalChunks) {
+			throw new ApiError(
+				400,
+				`totalChunks ${totalChunks} is too small, session '${existing.id}' already has chunk ${lastReceived}`,
+			)
+		}
+
+		if (totalChunks !== null && existing.totalChunks !== totalChunks) {
+			existing.totalChunks = totalChunks
+			saveSession(existing)
+		}
+
+		return { session: existing, resumed: true }
+	}
+
+	const now = toReadableDateString(Date.now())
+	const session: UploadSession = {
+		id: randomUUID(),
+		game,
+		env,
+		version,
+		totalChunks,
+		createdAt: now,
+		updatedAt: now,
+	}
+
+	fse.ensureDirSync(getChunksDir(session.id))
+	saveSession(session)
+
+	return { session, resumed: false }
+}
+
+/**
+ * @returns sorted indexes of the received chunks
+ */
+export function getReceivedChunks(id: string): number[] {
+	const chunksDir = getChunksDir(id)
+	if (!fse.existsSync(chunksDir)) {
+		return []
+	}
+
+	return fse
+		.readdirSync(chunksDir)
+		.filter((item) => /^\d+$/.test(item))
+		.map((item) => parseInt(item))
+		.sort((a, b) => a - b)
+}
+
+/**
+ * @returns indexes of the chunks that are not received yet, gaps only if total number of chunks is unknown
+ */
+export function getMissingChunks(session: UploadSession): number[] {
+	const received = getReceivedChunks(session.id)
+	const total = session.totalChunks ?? (received.at(-1) ?? -1) + 1
+
+	const missing: number[] = []
+	for (let i = 0; i < total; i++) {
+		if (!received.includes(i)) {
+			missing.push(i)
+		}
+	}
+
+	return missing
+}
+
+/**
+ * Saves the chunk, repeated upload of the same chunk replaces it
+ * Chunk is written to a temp file first, so an interrupted request never leaves a truncated chunk
+ */
+export async function saveChunk(
+	session: UploadSession,
+	index: number,
+	body: ReadableStream<Uint8Array>,
+): Promise<void> {
+	if (session.totalChunks !== null && index >= session.totalChunks) {
+		throw new ApiError(400, `chunk index ${index} is out of range, session has ${session.totalChunks} chunks`)
+	}
+
+	const chunksDir = getChunksDir(session.id)
+	const tempPath = await saveBodyToFile(body, chunksDir)
+	fse.renameSync(tempPath, path.join(chunksDir, index.toString()))
+
+	session.updatedAt = toReadableDateString(Date.now())
+	saveSession(session)
+}
+
+/**
+ * Joins all chunks into a single archive file
+ * @returns path to the archive, it is removed together with the session
+ * @throws {ApiError} if some chunks are missing
+ */
+export async function assembleChunks(session: UploadSession): Promise<string> {
+	const received = getReceivedChunks(session.id)
+	if (received.length === 0) {
+		throw new ApiError(400, `upload session '${session.id}' has no chunks`)
+	}
+
+	const missingChunks = getMissingChunks(session)
+	if (missingChunks.length > 0) {
+		throw new ApiError(400, `upload session '${session.id}' is incomplete`, { missingChunks })
+	}
+
+	const archivePath = path.join(getSessionDir(session.id), 'archive')
+	const output = createWriteStream(archivePath)
+
+	for (const index of received) {
+		await pipeline(createReadStream(path.join(getChunksDir(session.id), index.toString())), output, { end: false })
+	}
+
+	await new Promise<void>((resolve, reject) =>
+		output.end((error?: Error | null) => (error ? reject(error) : resolve())),
+	)
+
+	return archivePath
+}
+
+export function removeUploadSession(id: string): void {
+	fse.rmSync(getSessionDir(id), { recursive: true, force: true })
+}
+
+/**
+ * Removes sessions that didn't receive any chunks for longer than `maxAgeMs`
+ * @returns removed sessions
+ */
+export function removeAbandonedUploadSessions(maxAgeMs: number): UploadSession[] {
+	const now = Date.now()
+
+	const abandoned = getUploadSessions().filter(
+		(session) => now - fromReadableDateString(session.updatedAt) > maxAgeMs,
+	)
+	abandoned.forEach((session) => removeUploadSession(session.id))
+
+	return abandoned
+}
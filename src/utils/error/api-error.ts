@@ -0,0 +1,20 @@
+import type { StatusCode } from 'hono/utils/http-status'
+
+/**
+ * Error that should be sent to the client as is
+ * Thrown from route helpers and converted to a json response by `app.onError`
+ */
+export class ApiError extends Error {
+	constructor(
+		readonly status: Exclude<StatusCode, -1>,
+		message: string,
+		readonly details: Record<string, unknown> = {},
+	) {
+		super(message)
+		this.name = 'ApiError'
+	}
+
+	toJSON() {
+		return { message: this.message, ...this.details }
+	}
+}
@@ -0,0 +1,11 @@
+import * as fse from 'fs-extra'
+
+/**
+ * Writes json to a temp file and renames it over the target, so readers never see a partially written file
+ */
+export function writeJsonAtomic(filepath: string, data: unknown): void {
+	const tempPath = `${filepath}.tmp`
+
+	fse.outputJsonSync(tempPath, data, { spaces: '\t' })
+	fse.renameSync(tempPath, filepath)
+}
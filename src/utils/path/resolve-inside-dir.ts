@@ -0,0 +1,18 @@
+import path from 'path'
+
+/**
+ * Resolves relative path against the directory
+ * @returns absolute path or null if the path is absolute, contains `..` segments, points outside of `dir` or to `dir` itself
+ */
+export function resolveInsideDir(dir: string, relativePath: string): string | null {
+	if (path.isAbsolute(relativePath) || relativePath.split(/[\\/]/).includes('..')) {
+		return null
+	}
+
+	const resolved = path.resolve(dir, relativePath)
+	if (!resolved.startsWith(dir + path.sep)) {
+		return null
+	}
+
+	return resolved
+}
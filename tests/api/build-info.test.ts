@@ -0,0 +1,119 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+
+describe('build info metadata', () => {
+	const GAME = 'test-game'
+	const ENV = 'master'
+	const PLATFORM = 'web'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+
+	const extras = {
+		appVersion: '1.4.0-beta.2',
+		changelog: '- new level\n- bug fixes',
+		pipelineUrl: 'https://ci.example.com/pipelines/42',
+		author: 'alice',
+		meta: { store: 'facebook', flags: ['a', 'b'] },
+	}
+
+	const writeBuild = (buildInfo: Record<string, unknown>) => {
+		vol.fromNestedJSON(
+			{
+				[path.join(gameDir, ENV, '1')]: {
+					'build_info.json': JSON.stringify({
+						version: 1,
+						builtAt: Date.now(),
+						builtAtReadable: '2024-03-20 12:00:00',
+						gitCommitHash: 'abc123',
+						gitBranch: 'master',
+						...buildInfo,
+					}),
+					'index.html': '<html>1</html>',
+				},
+			},
+			'/',
+		)
+	}
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	beforeEach(() => {
+		resetFsExtra()
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should return metadata in the deployments endpoints', async () => {
+		writeBuild(extras)
+
+		const response = await get(`postDeploy/${GAME}/${ENV}/1`)
+		expect(response.status).toBe(200)
+
+		const deployments = await (await get(`deployments/${GAME}/${ENV}`)).json()
+		expect(deployments[0]).toMatchObject(extras)
+
+		const current = await (await get(`deployments/${GAME}/${ENV}/current`)).json()
+		expect(current).toMatchObject(extras)
+
+		const deployment = await (await get(`deployments/${GAME}/${ENV}/1`)).json()
+		expect(deployment).toMatchObject(extras)
+	})
+
+	it('should persist metadata into releases.json', async () => {
+		writeBuild(extras)
+
+		const response = await get(`publish/${GAME}/${PLATFORM}/${ENV}-1`)
+		expect(response.status).toBe(200)
+		expect((await response.json()).release).toMatchObject(extras)
+
+		const releases = fse.readJsonSync(path.join(gameDir, 'prod', PLATFORM, 'releases.json'))
+		expect(releases.builds[0]).toMatchObject(extras)
+
+		const release = await (await get(`releases/${GAME}/${PLATFORM}/current`)).json()
+		expect(release).toMatchObject(extras)
+	})
+
+	it('should accept build info without metadata', async () => {
+		writeBuild({})
+
+		const response = await get(`postDeploy/${GAME}/${ENV}/1`)
+		expect(response.status).toBe(200)
+
+		const deployment = await (await get(`deployments/${GAME}/${ENV}/1`)).json()
+		expect(Object.keys(deployment)).not.toContain('appVersion')
+		expect(Object.keys(deployment)).not.toContain('meta')
+	})
+
+	it('should validate metadata', async () => {
+		writeBuild({ appVersion: 'v1', pipelineUrl: 'not a url' })
+
+		const response = await get(`postDeploy/${GAME}/${ENV}/1`)
+
+		expect(response.status).toBe(400)
+		const data = await response.json()
+		expect(data.message).toBe('build info file is invalid')
+		expect(data.errors.map((error: { path: string[] }) => error.path[0]).sort()).toEqual([
+			'appVersion',
+			'pipelineUrl',
+		])
+	})
+})
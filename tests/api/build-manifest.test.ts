@@ -0,0 +1,165 @@
+import { createHash } from 'crypto'
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+
+describe('build manifest', () => {
+	const GAME = 'test-game'
+	const ENV = 'master'
+	const VERSION = '1'
+	const PLATFORM = 'web'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+	const buildDir = path.join(gameDir, ENV, VERSION)
+
+	const files = {
+		'index.html': '<html>1</html>',
+		'js/main.js': 'main',
+	}
+
+	const sha256 = (content: string) => createHash('sha256').update(content).digest('hex')
+
+	const manifest = (manifestFiles: Record<string, string>) =>
+		JSON.stringify({
+			files: Object.fromEntries(Object.entries(manifestFiles).map(([file, content]) => [file, sha256(content)])),
+		})
+
+	const setupBuild = (buildFiles: Record<string, string>, manifestJson?: string) => {
+		vol.fromNestedJSON(
+			{
+				[buildDir]: {
+					'build_info.json': JSON.stringify({
+						version: 1,
+						builtAt: Date.now(),
+						builtAtReadable: '2024-03-20 12:00:00',
+						gitCommitHash: 'abc123',
+						gitBranch: 'master',
+					}),
+					...(manifestJson ? { 'build_manifest.json': manifestJson } : {}),
+					...buildFiles,
+				},
+			},
+			'/',
+		)
+	}
+
+	const putConfig = (config: unknown) =>
+		app.fetch(
+			new Request(`http://localhost/config/${GAME}`, {
+				method: 'PUT',
+				body: JSON.stringify(config),
+				headers: { 'Content-Type': 'application/json' },
+			}),
+		)
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	beforeEach(() => {
+		resetFsExtra()
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	describe('/postDeploy', () => {
+		it('should verify the build files', async () => {
+			setupBuild(files, manifest(files))
+
+			const response = await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+
+			expect(response.status).toBe(200)
+			expect((await response.json()).manifestVerified).toBe(true)
+			expect(fse.existsSync(path.join(buildDir, 'build_manifest.json'))).toBe(true)
+		})
+
+		it('should fail if the build is incomplete or corrupted', async () => {
+			setupBuild(
+				{ 'index.html': '<html>1</html>', 'js/main.js': 'mai', 'js/extra.js': 'extra' },
+				manifest({ ...files, 'atlas.png': 'atlas' }),
+			)
+
+			const response = await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+
+			expect(response.status).toBe(400)
+			expect(await response.json()).toEqual({
+				message: `build '${VERSION}' doesn't match build_manifest.json`,
+				missing: ['atlas.png'],
+				corrupted: ['js/main.js'],
+				unexpected: ['js/extra.js'],
+			})
+			expect(fse.existsSync(path.join(gameDir, ENV, 'latest'))).toBe(false)
+		})
+
+		it('should fail if the manifest is invalid', async () => {
+			setupBuild(files, JSON.stringify({ files: { 'index.html': 'abc' } }))
+
+			const response = await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+
+			expect(response.status).toBe(400)
+			expect((await response.json()).message).toBe('build_manifest.json is invalid')
+		})
+
+		it('should fail if the manifest is required, but missing', async () => {
+			setupBuild(files)
+			await putConfig({ integrity: { requireManifest: true } })
+
+			const response = await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+
+			expect(response.status).toBe(404)
+			expect((await response.json()).message).toBe(`build '${VERSION}' doesn't have build_manifest.json`)
+		})
+
+		it('should accept builds without the manifest by default', async () => {
+			setupBuild(files)
+
+			const response = await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+
+			expect(response.status).toBe(200)
+			expect((await response.json()).manifestVerified).toBe(false)
+		})
+	})
+
+	describe('/publish', () => {
+		const releasesDir = path.join(gameDir, 'prod', PLATFORM)
+
+		beforeEach(async () => {
+			setupBuild(files, manifest(files))
+			await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+		})
+
+		it('should publish the verified build without the manifest', async () => {
+			const response = await get(`publish/${GAME}/${PLATFORM}/${ENV}-${VERSION}`)
+
+			expect(response.status).toBe(200)
+			expect(fse.existsSync(path.join(releasesDir, 'js/main.js'))).toBe(true)
+			expect(fse.existsSync(path.join(releasesDir, 'build_manifest.json'))).toBe(false)
+		})
+
+		it('should re-verify the build before publishing', async () => {
+			fse.rmSync(path.join(buildDir, 'js/main.js'))
+
+			const response = await get(`publish/${GAME}/${PLATFORM}/${ENV}-${VERSION}`)
+
+			expect(response.status).toBe(400)
+			expect((await response.json()).missing).toEqual(['js/main.js'])
+			expect(fse.existsSync(releasesDir)).toBe(false)
+		})
+	})
+})
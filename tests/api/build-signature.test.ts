@@ -0,0 +1,162 @@
+import { createHash, generateKeyPairSync, sign, type KeyObject } from 'crypto'
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+
+describe('build signature', () => {
+	const GAME = 'test-game'
+	const ENV = 'master'
+	const VERSION = '1'
+	const PLATFORM = 'web'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+	const buildDir = path.join(gameDir, ENV, VERSION)
+	const signingConfigPath = path.join(mockEnv.GAME_BUILDS_DIR, '.release-o-matic', 'games', GAME, 'signing.json')
+
+	const ciKeys = generateKeyPairSync('ed25519')
+	const otherKeys = generateKeyPairSync('ed25519')
+
+	const files = {
+		'index.html': '<html>1</html>',
+		'js/main.js': 'main',
+	}
+
+	const manifest = JSON.stringify({
+		files: Object.fromEntries(
+			Object.entries(files).map(([file, content]) => [file, createHash('sha256').update(content).digest('hex')]),
+		),
+	})
+
+	const signManifest = (privateKey: KeyObject) => sign(null, Buffer.from(manifest), privateKey).toString('base64')
+
+	// base64 of the raw 32-byte key
+	const rawPublicKey = (publicKey: KeyObject) =>
+		Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('base64')
+
+	const setupBuild = (signature?: string) => {
+		vol.fromNestedJSON(
+			{
+				[buildDir]: {
+					'build_info.json': JSON.stringify({
+						version: 1,
+						builtAt: Date.now(),
+						builtAtReadable: '2024-03-20 12:00:00',
+						gitCommitHash: 'abc123',
+						gitBranch: 'master',
+					}),
+					'build_manifest.json': manifest,
+					...(signature ? { 'build_manifest.sig': signature } : {}),
+					...files,
+				},
+			},
+			'/',
+		)
+	}
+
+	const setupSigning = (config: unknown) => {
+		fse.outputJsonSync(signingConfigPath, config)
+	}
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	beforeEach(() => {
+		resetFsExtra()
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	describe('/postDeploy', () => {
+		it('should accept the build signed with a trusted key', async () => {
+			setupBuild(signManifest(ciKeys.privateKey))
+			setupSigning({
+				required: true,
+				trustedKeys: {
+					other: rawPublicKey(otherKeys.publicKey),
+					ci: ciKeys.publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+				},
+			})
+
+			const response = await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+
+			expect(response.status).toBe(200)
+			const data = await response.json()
+			expect(data.signedBy).toBe('ci')
+			expect(data.manifestVerified).toBe(true)
+		})
+
+		it('should reject the build signed with an unknown key', async () => {
+			setupBuild(signManifest(otherKeys.privateKey))
+			setupSigning({ trustedKeys: { ci: rawPublicKey(ciKeys.publicKey) } })
+
+			const response = await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+
+			expect(response.status).toBe(403)
+			expect((await response.json()).message).toBe(`build '${VERSION}' signature doesn't match any trusted key`)
+			expect(fse.existsSync(path.join(gameDir, ENV, 'latest'))).toBe(false)
+		})
+
+		it('should reject unsigned build if signing is required', async () => {
+			setupBuild()
+			setupSigning({ required: true, trustedKeys: { ci: rawPublicKey(ciKeys.publicKey) } })
+
+			const response = await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+
+			expect(response.status).toBe(403)
+			expect((await response.json()).message).toBe(`build '${VERSION}' is not signed`)
+		})
+
+		it('should accept unsigned build if signing is not required', async () => {
+			setupBuild()
+			setupSigning({ trustedKeys: { ci: rawPublicKey(ciKeys.publicKey) } })
+
+			const response = await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+
+			expect(response.status).toBe(200)
+			expect((await response.json()).signedBy).toBe(null)
+		})
+	})
+
+	describe('/publish', () => {
+		const releasesDir = path.join(gameDir, 'prod', PLATFORM)
+
+		beforeEach(async () => {
+			setupBuild(signManifest(ciKeys.privateKey))
+			setupSigning({ required: true, trustedKeys: { ci: rawPublicKey(ciKeys.publicKey) } })
+			await get(`postDeploy/${GAME}/${ENV}/${VERSION}`)
+		})
+
+		it('should publish the signed build without the signature', async () => {
+			const response = await get(`publish/${GAME}/${PLATFORM}/${ENV}-${VERSION}`)
+
+			expect(response.status).toBe(200)
+			expect(fse.existsSync(path.join(releasesDir, 'build_manifest.sig'))).toBe(false)
+		})
+
+		it('should reject the build if the signature was removed after the deploy', async () => {
+			fse.rmSync(path.join(buildDir, 'build_manifest.sig'))
+
+			const response = await get(`publish/${GAME}/${PLATFORM}/${ENV}-${VERSION}`)
+
+			expect(response.status).toBe(403)
+			expect(fse.existsSync(releasesDir)).toBe(false)
+		})
+	})
+})
@@ -0,0 +1,108 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+import { buildFiles, request } from '../helpers/fixtures'
+
+describe('release channels', () => {
+	const GAME = 'test-game'
+	const PLATFORM = 'web'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+	const betaDir = path.join(gameDir, 'channels', 'beta', PLATFORM)
+	const prodDir = path.join(gameDir, 'prod', PLATFORM)
+
+	const putConfig = (config: unknown) => request('PUT', `config/${GAME}`, { body: config })
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	beforeEach(async () => {
+		resetFsExtra()
+
+		vol.fromNestedJSON({ [path.join(gameDir, 'master')]: { '1': buildFiles(1), '2': buildFiles(2) } }, '/')
+
+		await putConfig({ channels: ['beta'] })
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should publish into the channel without touching prod', async () => {
+		const response = await get(`publish/${GAME}/${PLATFORM}/master-1?channel=beta`)
+
+		expect(response.status).toBe(200)
+		const data = await response.json()
+		expect(data.channel).toBe('beta')
+		expect(data.path).toBe(betaDir)
+
+		expect(fse.readJsonSync(path.join(betaDir, 'releases.json')).current).toBe('master-1')
+		expect(fse.readFileSync(path.join(betaDir, 'index.html'), 'utf-8')).toBe('<html>1</html>')
+		expect(fse.existsSync(prodDir)).toBe(false)
+
+		const betaReleases = await get(`releases/${GAME}/${PLATFORM}?channel=beta`)
+		expect((await betaReleases.json()).current).toBe('master-1')
+
+		const prodReleases = await get(`releases/${GAME}/${PLATFORM}`)
+		expect(await prodReleases.json()).toEqual({ current: null, builds: [] })
+	})
+
+	it('should keep separate current pointers and rollback history per channel', async () => {
+		await get(`publish/${GAME}/${PLATFORM}/master-1`)
+		await get(`publish/${GAME}/${PLATFORM}/master-1?channel=beta`)
+		await get(`publish/${GAME}/${PLATFORM}/master-2?channel=beta`)
+
+		const rollbackResponse = await get(`rollback/${GAME}/${PLATFORM}?channel=beta`)
+		expect(rollbackResponse.status).toBe(200)
+		expect((await rollbackResponse.json()).release.key).toBe('master-1')
+
+		const prodRollback = await get(`rollback/${GAME}/${PLATFORM}`)
+		expect(prodRollback.status).toBe(400)
+
+		const current = await get(`releases/${GAME}/${PLATFORM}/current?channel=beta`)
+		expect((await current.json()).key).toBe('master-1')
+
+		const release = await get(`releases/${GAME}/${PLATFORM}/master-2?channel=beta`)
+		expect(await release.json()).toMatchObject({ key: 'master-2', isCurrent: false })
+	})
+
+	it('should map routes without the channel to prod', async () => {
+		await get(`publish/${GAME}/${PLATFORM}/master-1?channel=prod`)
+
+		const response = await get(`releases/${GAME}/${PLATFORM}/current`)
+
+		expect((await response.json()).key).toBe('master-1')
+		expect(fse.existsSync(path.join(prodDir, 'releases.json'))).toBe(true)
+	})
+
+	it('should fail if the channel is not declared in the game config', async () => {
+		const response = await get(`publish/${GAME}/${PLATFORM}/master-1?channel=internal`)
+
+		expect(response.status).toBe(404)
+		expect(await response.json()).toEqual({
+			message: `channel 'internal' doesn't exist`,
+			channels: ['prod', 'beta'],
+		})
+	})
+
+	it('should reject invalid channel names', async () => {
+		const response = await putConfig({ channels: ['../prod'] })
+
+		expect(response.status).toBe(400)
+	})
+})
@@ -0,0 +1,141 @@
+import { createHash } from 'crypto'
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+
+describe('/preDeploy delta endpoints', () => {
+	const GAME = 'test-game'
+	const ENV = 'develop'
+	const envDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, ENV)
+	const buildDir = path.join(envDir, '2')
+
+	const sha256 = (content: string) => createHash('sha256').update(content).digest('hex')
+
+	const postDelta = (pathname: string, body: unknown) =>
+		app.fetch(
+			new Request(`http://localhost/preDeploy/${pathname}/delta`, {
+				method: 'POST',
+				body: JSON.stringify(body),
+				headers: { 'Content-Type': 'application/json' },
+			}),
+		)
+
+	beforeEach(async () => {
+		resetFsExtra()
+
+		vol.fromNestedJSON(
+			{
+				[path.join(envDir, '1')]: {
+					'index.html': '<html></html>',
+					'atlas.png': 'atlas v1',
+					'sound.mp3': 'sound',
+				},
+			},
+			'/',
+		)
+
+		await app.fetch(new Request(`http://localhost/preDeploy/${GAME}/${ENV}/2`))
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	describe('POST /preDeploy/:game/:env/:version/delta', () => {
+		it('should return only files the server does not have', async () => {
+			const response = await postDelta(`${GAME}/${ENV}/2`, {
+				files: {
+					'index.html': sha256('<html></html>'),
+					'atlas.png': sha256('atlas v2'),
+					'js/main.js': sha256('main'),
+				},
+			})
+
+			expect(response.status).toBe(200)
+
+			const data = await response.json()
+			expect(data.missing.sort()).toEqual(['atlas.png', 'js/main.js'])
+			expect(data.linkedNum).toBe(1)
+			expect(data.removedNum).toBe(1)
+
+			// known files are linked, stale and unlisted files are removed
+			expect(fse.readFileSync(path.join(buildDir, 'index.html'), 'utf-8')).toBe('<html></html>')
+			expect(fse.existsSync(path.join(buildDir, 'atlas.png'))).toBe(false)
+			expect(fse.existsSync(path.join(buildDir, 'sound.mp3'))).toBe(false)
+		})
+
+		it('should fail if build directory was not prepared', async () => {
+			const response = await postDelta(`${GAME}/${ENV}/3`, { files: {} })
+
+			expect(response.status).toBe(404)
+		})
+
+		it('should not touch a build that is not reserved by /preDeploy', async () => {
+			const response = await postDelta(`${GAME}/${ENV}/1`, { files: {} })
+
+			expect(response.status).toBe(400)
+			expect((await response.json()).message).toContain('is already deployed')
+			expect(fse.readdirSync(path.join(envDir, '1')).sort()).toEqual(['atlas.png', 'index.html', 'sound.mp3'])
+		})
+
+		it('should reject invalid manifest', async () => {
+			const response = await postDelta(`${GAME}/${ENV}/2`, { files: { 'index.html': 'not-a-hash' } })
+
+			expect(response.status).toBe(400)
+			const data = await response.json()
+			expect(data.message).toContain('manifest is invalid')
+		})
+
+		it('should reject paths outside of the build directory', async () => {
+			const response = await postDelta(`${GAME}/${ENV}/2`, { files: { '../1/index.html': sha256('x') } })
+
+			expect(response.status).toBe(400)
+			const data = await response.json()
+			expect(data.paths).toEqual(['../1/index.html'])
+		})
+
+		it('should reject paths of the build directory itself', async () => {
+			const response = await postDelta(`${GAME}/${ENV}/2`, { files: { '': sha256('x'), '.': sha256('x') } })
+
+			expect(response.status).toBe(400)
+			const data = await response.json()
+			expect(data.paths).toEqual(['', '.'])
+		})
+
+		it('should reject paths that are both files and directories', async () => {
+			const response = await postDelta(`${GAME}/${ENV}/2`, {
+				files: { 'js': sha256('x'), 'js/main.js': sha256('main'), 'a/b': sha256('b'), 'a/./b': sha256('b') },
+			})
+
+			expect(response.status).toBe(400)
+			const data = await response.json()
+			expect(data.paths).toEqual(['js', 'a/b', 'a/./b'])
+		})
+
+		it('should replace a directory of the previous build with a file', async () => {
+			fse.writeFileSync(path.join(buildDir, 'sounds', 'old.mp3'), 'old')
+
+			const response = await postDelta(`${GAME}/${ENV}/2`, { files: { sounds: sha256('sound') } })
+
+			expect(response.status).toBe(200)
+			expect(fse.readFileSync(path.join(buildDir, 'sounds'), 'utf-8')).toBe('sound')
+		})
+	})
+})
@@ -0,0 +1,108 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the test helpers after the mocks, they import the app
+import { buildFiles, request } from '../helpers/fixtures'
+
+describe('deployment history', () => {
+	const GAME = 'test-game'
+	const ENV = 'develop'
+	const envDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, ENV)
+
+	const get = (pathname: string, token?: string) => request('GET', pathname, { token })
+
+	beforeEach(() => {
+		resetFsExtra()
+
+		vol.fromNestedJSON(
+			{
+				[envDir]: Object.fromEntries(
+					[1, 2, 3].map((version) => [
+						version.toString(),
+						buildFiles(version, undefined, { gitBranch: 'develop' }),
+					]),
+				),
+			},
+			'/',
+		)
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should record deploys and redeploys with the caller identity', async () => {
+		await get(`postDeploy/${GAME}/${ENV}/1`, 'ci-token')
+		await get(`postDeploy/${GAME}/${ENV}/2`, 'ci-token')
+		await get(`postDeploy/${GAME}/${ENV}/2`, 'alice-token')
+
+		const response = await get(`deployments/${GAME}/${ENV}/history`)
+		expect(response.status).toBe(200)
+
+		const data = await response.json()
+		expect(data.total).toBe(3)
+		expect(data.entries).toMatchObject([
+			{ type: 'redeploy', version: 2, identity: 'alice' },
+			{ type: 'deploy', version: 2, identity: 'ci', buildInfo: { gitCommitHash: 'commit2' } },
+			{ type: 'deploy', version: 1, identity: 'ci', buildInfo: { gitCommitHash: 'commit1' } },
+		])
+	})
+
+	it('should record cleanups and keep the history of removed builds', async () => {
+		await request('PUT', `config/${GAME}`, { body: { retention: { deployments: { default: { keepLast: 1 } } } } })
+
+		await get(`postDeploy/${GAME}/${ENV}/3`)
+
+		expect(fse.existsSync(path.join(envDir, '1'))).toBe(false)
+
+		const data = await (await get(`deployments/${GAME}/${ENV}/history`)).json()
+		expect(data.entries.map((entry: { type: string; version: number }) => [entry.type, entry.version])).toEqual([
+			['cleanup', 1],
+			['cleanup', 2],
+			['deploy', 3],
+		])
+	})
+
+	it('should paginate the history', async () => {
+		for (const version of [1, 2, 3]) {
+			await get(`postDeploy/${GAME}/${ENV}/${version}`)
+		}
+
+		const data = await (await get(`deployments/${GAME}/${ENV}/history?limit=2&offset=1`)).json()
+		expect(data).toMatchObject({ total: 3, offset: 1, limit: 2 })
+		expect(data.entries.map((entry: { version: number }) => entry.version)).toEqual([2, 1])
+
+		const invalidResponse = await get(`deployments/${GAME}/${ENV}/history?limit=0`)
+		expect(invalidResponse.status).toBe(400)
+	})
+
+	it('should take deployedAt from the history instead of the directory mtime', async () => {
+		await get(`postDeploy/${GAME}/${ENV}/2`)
+
+		const history = await (await get(`deployments/${GAME}/${ENV}/history`)).json()
+
+		// e.g. the build dir was restored from a backup
+		fse.utimesSync(path.join(envDir, '2'), new Date(2020, 0, 1), new Date(2020, 0, 1))
+
+		const deployment = await (await get(`deployments/${GAME}/${ENV}/2`)).json()
+		expect(deployment.deployedAt).toBe(history.entries[0].at)
+
+		const current = await (await get(`deployments/${GAME}/${ENV}/current`)).json()
+		expect(current.deployedAt).toBe(history.entries[0].at)
+	})
+})
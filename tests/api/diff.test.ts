@@ -0,0 +1,125 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+import { buildFiles } from '../helpers/fixtures'
+
+describe('diff endpoints', () => {
+	const GAME = 'test-game'
+	const ENV = 'master'
+	const PLATFORM = 'web'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+
+	const build = (version: number, files: Record<string, string>) => ({
+		[path.join(gameDir, ENV, version.toString())]: buildFiles(version, files, { builtAt: Date.now() + version }),
+	})
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	beforeEach(() => {
+		resetFsExtra()
+
+		vol.fromNestedJSON(
+			{
+				...build(1, {
+					'index.html': '<html>1</html>',
+					'main.js': 'main v1',
+					'atlas.png': 'atlas',
+					'old.js': 'old',
+				}),
+				...build(2, {
+					'index.html': '<html>1</html>',
+					'main.js': 'main v2 hotfix',
+					'atlas.png': 'atlas',
+					'new.js': 'new',
+				}),
+			},
+			'/',
+		)
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	const expectedDiff = {
+		added: [{ path: 'new.js', size: 3 }],
+		removed: [{ path: 'old.js', size: 3 }],
+		modified: [{ path: 'main.js', oldSize: 7, newSize: 14, sizeDelta: 7 }],
+		unchangedNum: 2,
+		sizeDelta: 7,
+	}
+
+	describe('GET /deployments/:game/:env/:from..:to', () => {
+		it('should report added, removed and modified files', async () => {
+			const response = await get(`deployments/${GAME}/${ENV}/1..2`)
+
+			expect(response.status).toBe(200)
+			expect(await response.json()).toEqual({ from: 1, to: 2, ...expectedDiff })
+		})
+
+		it('should cache file hashes of the builds', async () => {
+			await get(`deployments/${GAME}/${ENV}/1..2`)
+
+			const cachePath = path.join(mockEnv.GAME_BUILDS_DIR, '.release-o-matic', 'cache', 'deployments', GAME, ENV)
+			expect(fse.readdirSync(cachePath).sort()).toEqual(['1.json', '2.json'])
+
+			vi.mocked(fse.openSync).mockClear()
+			await get(`deployments/${GAME}/${ENV}/2..1`)
+			expect(fse.openSync).not.toHaveBeenCalled()
+		})
+
+		it('should fail if the build does not exist', async () => {
+			const response = await get(`deployments/${GAME}/${ENV}/1..3`)
+
+			expect(response.status).toBe(404)
+		})
+	})
+
+	describe('GET /releases/:game/:platform/:from..:to', () => {
+		beforeEach(async () => {
+			await get(`publish/${GAME}/${PLATFORM}/${ENV}-1`)
+			await get(`publish/${GAME}/${PLATFORM}/${ENV}-2`)
+		})
+
+		it('should compare releases', async () => {
+			const response = await get(`releases/${GAME}/${PLATFORM}/${ENV}-1..${ENV}-2`)
+
+			expect(response.status).toBe(200)
+			expect(await response.json()).toEqual({ from: `${ENV}-1`, to: `${ENV}-2`, ...expectedDiff })
+		})
+
+		it('should use hashes saved at publish, files of older releases could be replaced', async () => {
+			// main.js of the first release was replaced by the second release
+			const releasesDir = path.join(gameDir, 'prod', PLATFORM)
+			expect(fse.readFileSync(path.join(releasesDir, 'main.js'), 'utf-8')).toBe('main v2 hotfix')
+
+			const response = await get(`releases/${GAME}/${PLATFORM}/${ENV}-1..${ENV}-2`)
+			const data = await response.json()
+			expect(data.modified.map((item: { path: string }) => item.path)).toEqual(['main.js'])
+		})
+
+		it('should fail if the release does not exist', async () => {
+			const response = await get(`releases/${GAME}/${PLATFORM}/${ENV}-1..${ENV}-3`)
+
+			expect(response.status).toBe(404)
+			expect((await response.json()).message).toContain(`'${ENV}-3' doesn't exist`)
+		})
+	})
+})
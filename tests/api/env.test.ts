@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import app from '../../src/index'
+
+describe('GET /env', () => {
+	it('should not expose tokens', async () => {
+		const response = await app.fetch(
+			new Request('http://localhost/env', { headers: { Authorization: 'Bearer ci-token' } }),
+		)
+		expect(response.status).toBe(200)
+
+		const data = await response.json()
+		expect(data).not.toHaveProperty('BEARER_TOKEN')
+		expect(data).not.toHaveProperty('AUTH_TOKENS')
+		expect(data.GAME_BUILDS_DIR).toBe(mockEnv.GAME_BUILDS_DIR)
+
+		const body = JSON.stringify(data)
+		expect(body).not.toContain(mockEnv.BEARER_TOKEN)
+		expect(body).not.toContain('ci-token')
+		expect(body).not.toContain('alice-token')
+	})
+})
@@ -0,0 +1,186 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the test helpers after the mocks, they import the app
+import { buildFiles, request } from '../helpers/fixtures'
+
+describe('release freezes', () => {
+	const GAME = 'test-game'
+	const PLATFORM = 'web'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+	const releasesDir = path.join(gameDir, 'prod', PLATFORM)
+
+	const freeze = async (body: unknown) => {
+		const response = await request('POST', `freezes/${GAME}`, { body, token: 'ci-token' })
+		expect(response.status).toBe(200)
+		return response.json()
+	}
+
+	const getCurrent = () => fse.readJsonSync(path.join(releasesDir, 'releases.json')).current
+
+	beforeEach(async () => {
+		resetFsExtra()
+		vi.useFakeTimers({ toFake: ['Date'] })
+		vi.setSystemTime(new Date('2024-03-20T10:00:00Z'))
+
+		vol.fromNestedJSON(
+			{ [path.join(gameDir, 'master')]: { '1': buildFiles(1), '2': buildFiles(2), '3': buildFiles(3) } },
+			'/',
+		)
+
+		await request('GET', `publish/${GAME}/${PLATFORM}/master-1`)
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should refuse to publish and roll back a frozen platform', async () => {
+		await request('GET', `publish/${GAME}/${PLATFORM}/master-2`)
+
+		const platformFreeze = await freeze({ platform: PLATFORM, reason: 'store review' })
+		expect(platformFreeze).toMatchObject({
+			platform: PLATFORM,
+			reason: 'store review',
+			createdBy: 'ci',
+			active: true,
+		})
+
+		const publishResponse = await request('GET', `publish/${GAME}/${PLATFORM}/master-3`)
+		expect(publishResponse.status).toBe(409)
+		expect(await publishResponse.json()).toMatchObject({
+			message: `publish of '${GAME}/${PLATFORM}' is frozen (store review)`,
+			freezes: [expect.objectContaining({ id: platformFreeze.id })],
+		})
+
+		const rollbackResponse = await request('GET', `rollback/${GAME}/${PLATFORM}`)
+		expect(rollbackResponse.status).toBe(409)
+		expect((await rollbackResponse.json()).message).toBe(
+			`rollback of '${GAME}/${PLATFORM}' is frozen (store review)`,
+		)
+
+		expect(getCurrent()).toBe('master-2')
+
+		// other platforms are not frozen
+		const otherResponse = await request('GET', `publish/${GAME}/android/master-2`)
+		expect(otherResponse.status).toBe(200)
+	})
+
+	it('should freeze all platforms of the game', async () => {
+		await freeze({ reason: 'live event' })
+
+		const publishResponse = await request('GET', `publish/${GAME}/android/master-2`)
+		expect(publishResponse.status).toBe(409)
+
+		const releasesResponse = await request('GET', `releases/${GAME}/${PLATFORM}`)
+		expect((await releasesResponse.json()).freezes).toEqual([
+			expect.objectContaining({ reason: 'live event', game: GAME }),
+		])
+	})
+
+	it('should freeze only within the time window', async () => {
+		await freeze({ reason: 'live event', from: '2024-03-20T12:00:00Z', until: '2024-03-20T14:00:00Z' })
+
+		const listResponse = await request('GET', `freezes/${GAME}`)
+		expect(await listResponse.json()).toEqual([expect.objectContaining({ reason: 'live event', active: false })])
+
+		const releasesResponse = await request('GET', `releases/${GAME}/${PLATFORM}`)
+		expect((await releasesResponse.json()).freezes).toBeUndefined()
+
+		vi.setSystemTime(new Date('2024-03-20T13:00:00Z'))
+		expect((await request('GET', `publish/${GAME}/${PLATFORM}/master-2`)).status).toBe(409)
+
+		vi.setSystemTime(new Date('2024-03-20T14:00:00Z'))
+		expect((await request('GET', `publish/${GAME}/${PLATFORM}/master-2`)).status).toBe(200)
+
+		// the freeze is over, so it is not listed anymore
+		const emptyListResponse = await request('GET', `freezes/${GAME}`)
+		expect(await emptyListResponse.json()).toEqual([])
+	})
+
+	it('should allow only admins to override the freeze', async () => {
+		const platformFreeze = await freeze({ platform: PLATFORM, reason: 'store review' })
+
+		const ciResponse = await request('GET', `publish/${GAME}/${PLATFORM}/master-2?overrideFreeze=true`, {
+			token: 'ci-token',
+		})
+		expect(ciResponse.status).toBe(403)
+
+		const adminResponse = await request('GET', `publish/${GAME}/${PLATFORM}/master-2?overrideFreeze=true`, {
+			token: 'alice-token',
+		})
+		expect(adminResponse.status).toBe(200)
+		expect(getCurrent()).toBe('master-2')
+
+		const historyResponse = await request('GET', `releases/${GAME}/${PLATFORM}/history`)
+		expect((await historyResponse.json()).entries[0]).toMatchObject({
+			type: 'publish',
+			buildKey: 'master-2',
+			identity: 'alice',
+			overriddenFreezes: [platformFreeze.id],
+		})
+	})
+
+	it('should unfreeze the platform', async () => {
+		const platformFreeze = await freeze({ platform: PLATFORM, reason: 'store review' })
+
+		const deleteResponse = await request('DELETE', `freezes/${GAME}/${platformFreeze.id}`, { token: 'alice-token' })
+		expect(deleteResponse.status).toBe(200)
+		expect(await deleteResponse.json()).toMatchObject({ id: platformFreeze.id, removed: true, removedBy: 'alice' })
+
+		expect((await request('GET', `publish/${GAME}/${PLATFORM}/master-2`)).status).toBe(200)
+		expect((await request('DELETE', `freezes/${GAME}/${platformFreeze.id}`, { token: 'alice-token' })).status).toBe(
+			404,
+		)
+	})
+
+	it('should allow only admins to remove freezes', async () => {
+		const platformFreeze = await freeze({ platform: PLATFORM, reason: 'store review' })
+
+		const ciResponse = await request('DELETE', `freezes/${GAME}/${platformFreeze.id}`, { token: 'ci-token' })
+		expect(ciResponse.status).toBe(403)
+
+		const anonymousResponse = await request('DELETE', `freezes/${GAME}/${platformFreeze.id}`)
+		expect(anonymousResponse.status).toBe(403)
+
+		expect((await request('GET', `publish/${GAME}/${PLATFORM}/master-2`)).status).toBe(409)
+	})
+
+	it('should reject invalid freezes', async () => {
+		const noReasonResponse = await request('POST', `freezes/${GAME}`, { body: { platform: PLATFORM } })
+		expect(noReasonResponse.status).toBe(400)
+
+		const windowResponse = await request('POST', `freezes/${GAME}`, {
+			body: {
+				reason: 'event',
+				from: '2024-03-20T14:00:00Z',
+				until: '2024-03-20T12:00:00Z',
+			},
+		})
+		expect(windowResponse.status).toBe(400)
+
+		const pastResponse = await request('POST', `freezes/${GAME}`, {
+			body: {
+				reason: 'event',
+				until: '2024-03-20T09:00:00Z',
+			},
+		})
+		expect(pastResponse.status).toBe(400)
+	})
+})
@@ -0,0 +1,204 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the test helpers after the mocks, they import the app
+import { request } from '../helpers/fixtures'
+
+describe('pin endpoints', () => {
+	const GAME = 'test-game'
+	const ENV = 'develop'
+	const PLATFORM = 'web'
+	const envDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, ENV)
+	const releasesDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, 'prod', PLATFORM)
+
+	const release = (key: string, releasedAt: string) => ({
+		key,
+		index: `index_${key}.html`,
+		files: `files_${key}.json`,
+		releasedAt,
+		builtAt: releasedAt,
+		gitBranch: 'master',
+		gitCommit: 'abc123',
+	})
+
+	beforeEach(() => {
+		resetFsExtra()
+
+		vol.fromNestedJSON(
+			{
+				[envDir]: Object.fromEntries(
+					[1, 2, 3].map((version) => [
+						version.toString(),
+						{
+							'build_info.json': JSON.stringify({
+								version,
+								builtAt: Date.now(),
+								builtAtReadable: '2024-03-20 12:00:00',
+								gitCommitHash: 'abc123',
+								gitBranch: 'develop',
+							}),
+							'index.html': `<html>${version}</html>`,
+						},
+					]),
+				),
+				[releasesDir]: {
+					'releases.json': JSON.stringify({
+						current: 'master-3',
+						builds: [
+							release('master-3', '2024-03-22 12:00:00'),
+							release('master-2', '2024-03-21 12:00:00'),
+							release('master-1', '2024-03-20 12:00:00'),
+						],
+					}),
+					'files_master-1.json': JSON.stringify(['index_master-1.html']),
+					'files_master-2.json': JSON.stringify(['index_master-2.html']),
+					'files_master-3.json': JSON.stringify(['index_master-3.html']),
+				},
+			},
+			'/',
+		)
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	describe('/deployments/:game/:env/:version/pin', () => {
+		it('should pin the build with reason and identity of the caller', async () => {
+			const response = await request('POST', `deployments/${GAME}/${ENV}/1/pin`, {
+				body: { reason: 'certification' },
+				token: 'ci-token',
+			})
+
+			expect(response.status).toBe(200)
+			const data = await response.json()
+			expect(data.pinned).toMatchObject({ reason: 'certification', pinnedBy: 'ci' })
+
+			const deployments = await (await request('GET', `deployments/${GAME}/${ENV}`)).json()
+			expect(deployments.find((item: { version: number }) => item.version === 1).pinned).toEqual(data.pinned)
+			expect(deployments.find((item: { version: number }) => item.version === 2).pinned).toBeUndefined()
+
+			const deployment = await (await request('GET', `deployments/${GAME}/${ENV}/1`)).json()
+			expect(deployment.pinned).toEqual(data.pinned)
+		})
+
+		it('should use anonymous identity when auth is not required and token is not provided', async () => {
+			const response = await request('POST', `deployments/${GAME}/${ENV}/1/pin`, { body: { reason: 'qa' } })
+
+			const data = await response.json()
+			expect(data.pinned.pinnedBy).toBe('anonymous')
+		})
+
+		it('should require a reason', async () => {
+			const response = await request('POST', `deployments/${GAME}/${ENV}/1/pin`, { body: { reason: ' ' } })
+
+			expect(response.status).toBe(400)
+		})
+
+		it('should fail if the build does not exist', async () => {
+			const response = await request('POST', `deployments/${GAME}/${ENV}/99/pin`, { body: { reason: 'qa' } })
+
+			expect(response.status).toBe(404)
+		})
+
+		it('should fail if the build is a pending deploy', async () => {
+			await request('GET', `preDeploy/${GAME}/${ENV}/4`)
+
+			const response = await request('POST', `deployments/${GAME}/${ENV}/4/pin`, { body: { reason: 'qa' } })
+
+			expect(response.status).toBe(400)
+			expect((await response.json()).message).toContain('is not deployed yet')
+		})
+
+		it('should exclude pinned builds from the retention', async () => {
+			await request('PUT', `config/${GAME}`, {
+				body: { retention: { deployments: { default: { keepLast: 1 } } } },
+			})
+			await request('POST', `deployments/${GAME}/${ENV}/1/pin`, { body: { reason: 'certification' } })
+
+			const plan = await (await request('GET', `retention/${GAME}/deployments/${ENV}`)).json()
+			expect(plan.keep).toEqual([3, 1])
+			expect(plan.remove).toEqual([2])
+		})
+
+		it('should unpin the build', async () => {
+			await request('POST', `deployments/${GAME}/${ENV}/1/pin`, {
+				body: { reason: 'certification' },
+				token: 'test-token',
+			})
+
+			const response = await request('DELETE', `deployments/${GAME}/${ENV}/1/pin`)
+			expect(response.status).toBe(200)
+			const data = await response.json()
+			expect(data.unpinned.pinnedBy).toBe('default')
+
+			const deployment = await (await request('GET', `deployments/${GAME}/${ENV}/1`)).json()
+			expect(deployment.pinned).toBeUndefined()
+
+			const secondResponse = await request('DELETE', `deployments/${GAME}/${ENV}/1/pin`)
+			expect(secondResponse.status).toBe(404)
+		})
+	})
+
+	describe('/releases/:game/:platform/:buildKey/pin', () => {
+		it('should pin the release and keep it in releases.json', async () => {
+			const response = await request('POST', `releases/${GAME}/${PLATFORM}/master-1/pin`, {
+				body: { reason: 'store review' },
+				token: 'alice-token',
+			})
+
+			expect(response.status).toBe(200)
+			const data = await response.json()
+			expect(data.pinned).toMatchObject({ reason: 'store review', pinnedBy: 'alice' })
+
+			const releases = fse.readJsonSync(path.join(releasesDir, 'releases.json'))
+			expect(releases.builds[2].pinned).toEqual(data.pinned)
+
+			const releaseResponse = await request('GET', `releases/${GAME}/${PLATFORM}/master-1`)
+			expect((await releaseResponse.json()).pinned).toEqual(data.pinned)
+		})
+
+		it('should exclude pinned releases from the retention', async () => {
+			await request('PUT', `config/${GAME}`, { body: { retention: { releases: { default: { keepLast: 1 } } } } })
+			await request('POST', `releases/${GAME}/${PLATFORM}/master-1/pin`, { body: { reason: 'store review' } })
+
+			const plan = await (await request('GET', `retention/${GAME}/releases/${PLATFORM}`)).json()
+			expect(plan.keep).toEqual(['master-3', 'master-1'])
+			expect(plan.remove).toEqual(['master-2'])
+		})
+
+		it('should unpin the release', async () => {
+			await request('POST', `releases/${GAME}/${PLATFORM}/master-1/pin`, { body: { reason: 'store review' } })
+
+			const response = await request('DELETE', `releases/${GAME}/${PLATFORM}/master-1/pin`)
+			expect(response.status).toBe(200)
+			expect((await response.json()).pinned).toBeUndefined()
+
+			const releases = fse.readJsonSync(path.join(releasesDir, 'releases.json'))
+			expect(releases.builds[2].pinned).toBeUndefined()
+		})
+
+		it('should fail if the release does not exist', async () => {
+			const response = await request('POST', `releases/${GAME}/${PLATFORM}/master-99/pin`, {
+				body: { reason: 'qa' },
+			})
+
+			expect(response.status).toBe(404)
+		})
+	})
+})
@@ -0,0 +1,194 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import { removeAllExpiredPendingDeploys } from '../../src/builds/pending-deploys'
+import app from '../../src/index'
+
+describe('/preDeploy endpoint', () => {
+	const GAME = 'test-game'
+	const ENV = 'develop'
+	const envDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, ENV)
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	const uploadBuild = (version: number) => {
+		fse.writeFileSync(
+			path.join(envDir, version.toString(), 'build_info.json'),
+			JSON.stringify({
+				version,
+				builtAt: Date.now(),
+				builtAtReadable: '2024-03-20 12:00:00',
+				gitCommitHash: 'abc123',
+				gitBranch: 'develop',
+			}),
+		)
+		fse.writeFileSync(path.join(envDir, version.toString(), 'index.html'), `<html>${version}</html>`)
+	}
+
+	beforeEach(() => {
+		resetFsExtra()
+		vol.mkdirSync(mockEnv.GAME_BUILDS_DIR, { recursive: true })
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should reserve the next version', async () => {
+		const response = await get(`preDeploy/${GAME}/${ENV}/next`)
+
+		expect(response.status).toBe(200)
+		const data = await response.json()
+		expect(data.newBuildVersion).toBe(1)
+		expect(data.expiresAt).toBeDefined()
+		expect(fse.existsSync(path.join(envDir, '1'))).toBe(true)
+
+		// the first build dir is still empty, but its version is reserved
+		const secondResponse = await get(`preDeploy/${GAME}/${ENV}/next`)
+		expect((await secondResponse.json()).newBuildVersion).toBe(2)
+	})
+
+	it('should not allow explicit version that is reserved', async () => {
+		await get(`preDeploy/${GAME}/${ENV}/next`)
+
+		const response = await get(`preDeploy/${GAME}/${ENV}/1`)
+
+		expect(response.status).toBe(400)
+		const data = await response.json()
+		expect(data.message).toContain('already exists')
+		expect(data.newBuildVersion).toBe(2)
+	})
+
+	it('should release the reservation on /postDeploy', async () => {
+		await get(`preDeploy/${GAME}/${ENV}/next`)
+		uploadBuild(1)
+
+		const postDeployResponse = await get(`postDeploy/${GAME}/${ENV}/1`)
+		expect(postDeployResponse.status).toBe(200)
+
+		const pending = fse.readJsonSync(
+			path.join(mockEnv.GAME_BUILDS_DIR, '.release-o-matic', 'games', GAME, 'envs', ENV, 'pending.json'),
+		)
+		expect(pending).toEqual([])
+
+		const response = await get(`preDeploy/${GAME}/${ENV}/next`)
+		const data = await response.json()
+		expect(data.newBuildVersion).toBe(2)
+		expect(data.builds).toEqual([1])
+	})
+
+	it('should remove expired reservations', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] })
+
+		await get(`preDeploy/${GAME}/${ENV}/next`)
+		uploadBuild(1)
+
+		vi.setSystemTime(Date.now() + (mockEnv.PENDING_DEPLOY_TTL_HOURS + 1) * 60 * 60 * 1000)
+
+		const response = await get(`preDeploy/${GAME}/${ENV}/next`)
+
+		// build dir of the expired reservation is removed and its version is reused
+		const data = await response.json()
+		expect(data.newBuildVersion).toBe(1)
+		expect(data.builds).toEqual([])
+		expect(fse.existsSync(path.join(envDir, '1', 'index.html'))).toBe(false)
+	})
+
+	it('should fail with invalid version', async () => {
+		const response = await get(`preDeploy/${GAME}/${ENV}/latest`)
+
+		expect(response.status).toBe(400)
+	})
+	describe('pending deploys', () => {
+		beforeEach(async () => {
+			await get(`preDeploy/${GAME}/${ENV}/next`)
+			uploadBuild(1)
+			await get(`postDeploy/${GAME}/${ENV}/1`)
+
+			// CI job died after /preDeploy, the build dir is a copy of the previous build
+			await get(`preDeploy/${GAME}/${ENV}/next`)
+		})
+
+		it('should list pending deploys', async () => {
+			const response = await get(`deployments/${GAME}/${ENV}/pending`)
+
+			expect(response.status).toBe(200)
+			const data = await response.json()
+			expect(data).toMatchObject([{ version: 2, identity: 'anonymous', buildDir: path.join(GAME, ENV, '2') }])
+			expect(data[0].expiresAt).toBeDefined()
+		})
+
+		it('should not count pending deploys as existing builds', async () => {
+			const deployments = await (await get(`deployments/${GAME}/${ENV}`)).json()
+			expect(deployments.map((item: { version: number }) => item.version)).toEqual([1])
+
+			const response = await get(`preDeploy/${GAME}/${ENV}/next`)
+			const data = await response.json()
+			expect(data.newBuildVersion).toBe(3)
+			expect(data.builds).toEqual([1])
+		})
+
+		it('should cancel the pending deploy', async () => {
+			const response = await app.fetch(
+				new Request(`http://localhost/deployments/${GAME}/${ENV}/pending/2`, { method: 'DELETE' }),
+			)
+
+			expect(response.status).toBe(200)
+			expect(fse.existsSync(path.join(envDir, '2'))).toBe(false)
+
+			const pending = await (await get(`deployments/${GAME}/${ENV}/pending`)).json()
+			expect(pending).toEqual([])
+
+			const history = await (await get(`deployments/${GAME}/${ENV}/history`)).json()
+			expect(history.entries[0]).toMatchObject({ type: 'cancel', version: 2 })
+
+			const secondResponse = await app.fetch(
+				new Request(`http://localhost/deployments/${GAME}/${ENV}/pending/2`, { method: 'DELETE' }),
+			)
+			expect(secondResponse.status).toBe(404)
+		})
+
+		it('should remove expired pending deploys of all environments', async () => {
+			vi.useFakeTimers({ toFake: ['Date'] })
+			vi.setSystemTime(Date.now() + (mockEnv.PENDING_DEPLOY_TTL_HOURS + 1) * 60 * 60 * 1000)
+
+			const removed = await removeAllExpiredPendingDeploys()
+
+			expect(removed).toEqual([{ game: GAME, env: ENV, version: 2 }])
+			expect(fse.existsSync(path.join(envDir, '2'))).toBe(false)
+			expect(fse.existsSync(path.join(envDir, '1'))).toBe(true)
+
+			const history = await (await get(`deployments/${GAME}/${ENV}/history`)).json()
+			expect(history.entries[0]).toMatchObject({ type: 'expire', version: 2, identity: 'system' })
+		})
+
+		it('should not remove pending deploys by the retention policy', async () => {
+			await app.fetch(
+				new Request(`http://localhost/config/${GAME}`, {
+					method: 'PUT',
+					body: JSON.stringify({ retention: { deployments: { default: { keepLast: 0 } } } }),
+				}),
+			)
+
+			const plan = await (await get(`retention/${GAME}/deployments/${ENV}`)).json()
+			expect(plan.remove).toEqual([])
+		})
+	})
+})
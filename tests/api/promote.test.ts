@@ -0,0 +1,125 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+
+describe('/promote endpoint', () => {
+	const GAME = 'test-game'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+
+	const buildInfo = {
+		version: 812,
+		builtAt: Date.now(),
+		builtAtReadable: '2024-03-20 12:00:00',
+		gitCommitHash: 'abc123',
+		gitBranch: 'develop',
+	}
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	beforeEach(() => {
+		resetFsExtra()
+
+		vol.fromNestedJSON(
+			{
+				[path.join(gameDir, 'develop', '812')]: {
+					'build_info.json': JSON.stringify(buildInfo),
+					'index.html': '<html>812</html>',
+					'main.js': 'main',
+				},
+				[path.join(gameDir, 'staging', '5')]: {
+					'build_info.json': JSON.stringify({ ...buildInfo, version: 5 }),
+					'index.html': '<html>5</html>',
+				},
+			},
+			'/',
+		)
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should promote the build into the next version of the destination environment', async () => {
+		const response = await get(`promote/${GAME}/develop/812/staging`)
+
+		expect(response.status).toBe(200)
+		const data = await response.json()
+		expect(data).toMatchObject({
+			buildVersion: '6',
+			buildDir: path.join(GAME, 'staging', '6'),
+			promotedFrom: 'develop-812',
+		})
+
+		const promotedDir = path.join(gameDir, 'staging', '6')
+		expect(fse.readFileSync(path.join(promotedDir, 'main.js'), 'utf-8')).toBe('main')
+		expect(fse.lstatSync(path.join(promotedDir, 'main.js')).ino).toBe(
+			fse.lstatSync(path.join(gameDir, 'develop', '812', 'main.js')).ino,
+		)
+		expect(fse.readlinkSync(path.join(gameDir, 'staging', 'latest'))).toBe('6')
+
+		// source metadata is recorded in the promoted build only
+		expect(fse.readJsonSync(path.join(promotedDir, 'build_info.json')).promotedFrom).toBe('develop-812')
+		expect(fse.readJsonSync(path.join(gameDir, 'develop', '812', 'build_info.json')).promotedFrom).toBeUndefined()
+
+		const deployment = await (await get(`deployments/${GAME}/staging/current`)).json()
+		expect(deployment).toMatchObject({ version: 6, promotedFrom: 'develop-812' })
+	})
+
+	it('should promote the build into the specified version', async () => {
+		const response = await get(`promote/${GAME}/develop/812/master/100`)
+
+		expect(response.status).toBe(200)
+		expect(fse.existsSync(path.join(gameDir, 'master', '100', 'index.html'))).toBe(true)
+	})
+
+	it('should fail if the destination version exists', async () => {
+		const response = await get(`promote/${GAME}/develop/812/staging/5`)
+
+		expect(response.status).toBe(400)
+		const data = await response.json()
+		expect(data.newBuildVersion).toBe(6)
+	})
+
+	it('should validate the source build', async () => {
+		fse.rmSync(path.join(gameDir, 'develop', '812', 'index.html'))
+
+		const response = await get(`promote/${GAME}/develop/812/staging`)
+
+		expect(response.status).toBe(404)
+		expect(fse.existsSync(path.join(gameDir, 'staging', '6'))).toBe(false)
+		expect(fse.existsSync(path.join(gameDir, 'staging', 'latest'))).toBe(false)
+	})
+
+	it('should fail if the source build is a pending deploy', async () => {
+		await get(`preDeploy/${GAME}/develop/813`)
+
+		const response = await get(`promote/${GAME}/develop/813/staging`)
+
+		expect(response.status).toBe(400)
+		expect((await response.json()).message).toContain('is not deployed yet')
+		expect(fse.existsSync(path.join(gameDir, 'staging', '6'))).toBe(false)
+	})
+
+	it('should fail if the source build does not exist', async () => {
+		const response = await get(`promote/${GAME}/develop/999/staging`)
+
+		expect(response.status).toBe(404)
+	})
+})
@@ -0,0 +1,292 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import { runScheduledActions } from '../../src/index'
+import { buildFiles, request } from '../helpers/fixtures'
+
+describe('publish approvals', () => {
+	const GAME = 'test-game'
+	const PLATFORM = 'web'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+	const releasesDir = path.join(gameDir, 'prod', PLATFORM)
+
+	const build = (version: number) =>
+		buildFiles(version, { 'index.html': `<html>${version}</html>`, 'game.js': 'console.log("game")' })
+
+	const requestPublish = async (buildKey: string, query = '') => {
+		const response = await request('GET', `publish/${GAME}/${PLATFORM}/${buildKey}${query}`, { token: 'ci-token' })
+		expect(response.status).toBe(202)
+		return (await response.json()).request
+	}
+
+	beforeEach(async () => {
+		resetFsExtra()
+
+		vol.fromNestedJSON({ [path.join(gameDir, 'master')]: { '1': build(1), '2': build(2) } }, '/')
+
+		await request('PUT', `config/${GAME}`, {
+			body: { channels: ['beta'], approvals: { required: true } },
+			token: 'alice-token',
+		})
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should create a publish request instead of publishing', async () => {
+		const publishRequest = await requestPublish('master-1')
+
+		expect(publishRequest).toMatchObject({
+			game: GAME,
+			platform: PLATFORM,
+			channel: 'prod',
+			buildKey: 'master-1',
+			requestedBy: 'ci',
+			diff: { from: null, addedNum: 2, removedNum: 0, modifiedNum: 0, unchangedNum: 0 },
+		})
+		expect(fse.existsSync(releasesDir)).toBe(false)
+
+		const listResponse = await request('GET', `publishRequests/${GAME}`)
+		expect(await listResponse.json()).toEqual([{ ...publishRequest, expired: false }])
+
+		// the same build can't be requested twice
+		const secondResponse = await request('GET', `publish/${GAME}/${PLATFORM}/master-1`, { token: 'ci-token' })
+		expect(secondResponse.status).toBe(400)
+	})
+
+	it('should publish the build when another identity approves the request', async () => {
+		const publishRequest = await requestPublish('master-1')
+
+		const response = await request('POST', `publishRequests/${GAME}/${publishRequest.id}/approve`, {
+			token: 'alice-token',
+		})
+
+		expect(response.status).toBe(200)
+		const data = await response.json()
+		expect(data).toMatchObject({ channel: 'prod', release: { key: 'master-1' }, approvedBy: 'alice' })
+
+		expect(fse.readJsonSync(path.join(releasesDir, 'releases.json')).current).toBe('master-1')
+
+		const listResponse = await request('GET', `publishRequests/${GAME}`)
+		expect(await listResponse.json()).toEqual([])
+
+		const historyResponse = await request('GET', `releases/${GAME}/${PLATFORM}/history`)
+		expect((await historyResponse.json()).entries).toEqual([
+			{
+				type: 'publish',
+				buildKey: 'master-1',
+				at: expect.any(String),
+				identity: 'ci',
+				publishRequestId: publishRequest.id,
+				approvedBy: 'alice',
+			},
+			{
+				type: 'publish',
+				buildKey: 'master-1',
+				at: expect.any(String),
+				identity: 'ci',
+				publishRequestId: publishRequest.id,
+				pending: true,
+			},
+		])
+
+		// the diff of the next request is made against the current release
+		const nextRequest = await requestPublish('master-2')
+		expect(nextRequest.diff).toMatchObject({ from: 'master-1', modifiedNum: 1, unchangedNum: 1 })
+	})
+
+	it('should not publish the build redeployed after the request', async () => {
+		const publishRequest = await requestPublish('master-1')
+
+		// the requester deploys other files into the same version
+		fse.writeFileSync(path.join(gameDir, 'master', '1', 'game.js'), 'console.log("not approved")')
+		expect((await request('GET', `postDeploy/${GAME}/master/1`, { token: 'ci-token' })).status).toBe(200)
+
+		const response = await request('POST', `publishRequests/${GAME}/${publishRequest.id}/approve`, {
+			token: 'alice-token',
+		})
+
+		expect(response.status).toBe(409)
+		expect((await response.json()).message).toContain('changed since the publish request was created')
+		expect(fse.existsSync(path.join(releasesDir, 'releases.json'))).toBe(false)
+	})
+
+	it('should not allow the requester or anonymous users to approve the request', async () => {
+		const publishRequest = await requestPublish('master-1')
+
+		const selfResponse = await request('POST', `publishRequests/${GAME}/${publishRequest.id}/approve`, {
+			token: 'ci-token',
+		})
+		expect(selfResponse.status).toBe(403)
+
+		const anonymousResponse = await request('POST', `publishRequests/${GAME}/${publishRequest.id}/approve`)
+		expect(anonymousResponse.status).toBe(403)
+
+		expect(fse.existsSync(releasesDir)).toBe(false)
+	})
+
+	it('should reject the request', async () => {
+		const publishRequest = await requestPublish('master-1')
+
+		const response = await request('POST', `publishRequests/${GAME}/${publishRequest.id}/reject`, {
+			token: 'alice-token',
+		})
+
+		expect(response.status).toBe(200)
+		expect(await response.json()).toMatchObject({ id: publishRequest.id, rejected: true, rejectedBy: 'alice' })
+
+		const approveResponse = await request('POST', `publishRequests/${GAME}/${publishRequest.id}/approve`, {
+			token: 'alice-token',
+		})
+		expect(approveResponse.status).toBe(404)
+		expect(fse.existsSync(releasesDir)).toBe(false)
+	})
+
+	it('should expire requests that are not approved in time', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] })
+		vi.setSystemTime(new Date('2024-03-20T10:00:00Z'))
+
+		const publishRequest = await requestPublish('master-1')
+
+		vi.setSystemTime(new Date('2024-03-21T10:00:01Z'))
+
+		const listResponse = await request('GET', `publishRequests/${GAME}`)
+		expect(await listResponse.json()).toEqual([{ ...publishRequest, expired: true }])
+
+		const approveResponse = await request('POST', `publishRequests/${GAME}/${publishRequest.id}/approve`, {
+			token: 'alice-token',
+		})
+		expect(approveResponse.status).toBe(400)
+
+		const expireResponse = await request('POST', `publishRequests/${GAME}/expire`)
+		expect((await expireResponse.json()).expired.map((item: { id: string }) => item.id)).toEqual([
+			publishRequest.id,
+		])
+
+		const emptyListResponse = await request('GET', `publishRequests/${GAME}`)
+		expect(await emptyListResponse.json()).toEqual([])
+	})
+
+	it('should allow only admins to change approvals', async () => {
+		const disableResponse = await request('PUT', `config/${GAME}`, {
+			body: { approvals: { required: false } },
+			token: 'ci-token',
+		})
+		expect(disableResponse.status).toBe(403)
+
+		const removeResponse = await request('PUT', `config/${GAME}`, {
+			body: { channels: ['beta'] },
+			token: 'ci-token',
+		})
+		expect(removeResponse.status).toBe(403)
+
+		// other settings can be changed by anyone as long as the approvals stay the same
+		const channelsResponse = await request('PUT', `config/${GAME}`, {
+			body: {
+				channels: ['beta', 'internal'],
+				approvals: { required: true },
+			},
+			token: 'ci-token',
+		})
+		expect(channelsResponse.status).toBe(200)
+
+		const publishResponse = await request('GET', `publish/${GAME}/${PLATFORM}/master-1`, { token: 'ci-token' })
+		expect(publishResponse.status).toBe(202)
+
+		const adminResponse = await request('PUT', `config/${GAME}`, {
+			body: { approvals: { required: false } },
+			token: 'alice-token',
+		})
+		expect(adminResponse.status).toBe(200)
+	})
+
+	it('should create a publish request for the scheduled publish', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] })
+		vi.setSystemTime(new Date('2024-03-20T10:00:00Z'))
+
+		const scheduleResponse = await request('POST', `schedule/${GAME}`, {
+			body: {
+				type: 'publish',
+				platform: PLATFORM,
+				buildKey: 'master-1',
+				runAt: '2024-03-20T11:00:00Z',
+			},
+			token: 'ci-token',
+		})
+		const action = await scheduleResponse.json()
+
+		vi.setSystemTime(new Date('2024-03-20T11:00:00Z'))
+		await runScheduledActions()
+
+		const listResponse = await request('GET', `publishRequests/${GAME}`)
+		const [publishRequest] = await listResponse.json()
+		expect(publishRequest).toMatchObject({ buildKey: 'master-1', requestedBy: 'ci' })
+		expect(fse.existsSync(releasesDir)).toBe(false)
+
+		const historyResponse = await request('GET', `releases/${GAME}/${PLATFORM}/history`)
+		expect((await historyResponse.json()).entries).toEqual([
+			{
+				type: 'publish',
+				buildKey: 'master-1',
+				at: expect.any(String),
+				identity: 'ci',
+				scheduledActionId: action.id,
+				publishRequestId: publishRequest.id,
+				pending: true,
+			},
+		])
+	})
+
+	it('should keep the freeze override of an admin request', async () => {
+		await request('POST', `freezes/${GAME}`, {
+			body: { platform: PLATFORM, reason: 'store review' },
+			token: 'alice-token',
+		})
+
+		const response = await request('GET', `publish/${GAME}/${PLATFORM}/master-1?overrideFreeze=true`, {
+			token: 'alice-token',
+		})
+		expect(response.status).toBe(202)
+		const { request: publishRequest } = await response.json()
+		expect(publishRequest.overrideFreeze).toBe(true)
+
+		const approveResponse = await request('POST', `publishRequests/${GAME}/${publishRequest.id}/approve`, {
+			token: 'ci-token',
+		})
+		expect(approveResponse.status).toBe(200)
+		expect(fse.readJsonSync(path.join(releasesDir, 'releases.json')).current).toBe('master-1')
+
+		// non-admins can't request the override
+		const ciResponse = await request('GET', `publish/${GAME}/${PLATFORM}/master-2?overrideFreeze=true`, {
+			token: 'ci-token',
+		})
+		expect(ciResponse.status).toBe(403)
+	})
+
+	it('should publish into channels that do not require approvals immediately', async () => {
+		const response = await request('GET', `publish/${GAME}/${PLATFORM}/master-1?channel=beta`, {
+			token: 'ci-token',
+		})
+
+		expect(response.status).toBe(200)
+		expect((await response.json()).release.key).toBe('master-1')
+	})
+})
@@ -17,6 +17,7 @@ import * as fse from 'fs-extra'
 
 // Import the app after the mocks
 import app from '../../src/index'
+import { recoverPublish } from '../../src/releases/publish-transaction'
 
 describe('/publish endpoints', () => {
 	const GAME = 'test-game'
@@ -154,6 +155,20 @@ describe('/publish endpoints', () => {
 			expect(data.release.key).toBe(BUILD_KEY_2) // Latest build from master
 		})
 
+		it('should skip pending deploys', async () => {
+			// the pending build dir is created from the latest build, so it has build_info.json and index.html
+			const preDeployResponse = await app.fetch(new Request(`http://localhost/preDeploy/${GAME}/master/next`))
+			expect((await preDeployResponse.json()).newBuildVersion).toBe(BUILD_VERSION_2 + 1)
+
+			const pendingResponse = await publish(`${GAME}/${PLATFORM}/master-${BUILD_VERSION_2 + 1}`)
+			expect(pendingResponse.status).toBe(400)
+			expect((await pendingResponse.json()).message).toContain('is not deployed yet')
+
+			const response = await publish(`${GAME}/${PLATFORM}`)
+			expect(response.status).toBe(200)
+			expect((await response.json()).release.key).toBe(BUILD_KEY_2)
+		})
+
 		it('should fail with invalid build key format', async () => {
 			const response = await publish(`${GAME}/${PLATFORM}/invalid-key`)
 
@@ -257,4 +272,214 @@ describe('/publish endpoints', () => {
 			expect(resolvedSymlinkTarget).toBe(path.join(prodDir, `index_${BUILD_KEY_2}.html`))
 		})
 	})
+
+	describe('dry run', () => {
+		const prodDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, 'prod', PLATFORM)
+
+		beforeEach(async () => {
+			const masterDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, 'master')
+			fse.writeFileSync(path.join(masterDir, BUILD_VERSION_1.toString(), 'main.js'), 'main 1')
+			fse.writeFileSync(path.join(masterDir, BUILD_VERSION_2.toString(), 'main.js'), 'main 2')
+
+			await publish(`${GAME}/${PLATFORM}/${BUILD_KEY_1}`)
+		})
+
+		it('should return the publish plan without publishing', async () => {
+			await app.fetch(
+				new Request(`http://localhost/config/${GAME}`, {
+					method: 'PUT',
+					body: JSON.stringify({ retention: { releases: { default: { keepLast: 1 } } } }),
+					headers: { 'Content-Type': 'application/json' },
+				}),
+			)
+			const releasesJson = fse.readFileSync(path.join(prodDir, 'releases.json'), 'utf-8')
+
+			const response = await publish(`${GAME}/${PLATFORM}?dryRun=true`)
+
+			expect(response.status).toBe(200)
+			const data = await response.json()
+			expect(data).toMatchObject({
+				dryRun: true,
+				buildKey: BUILD_KEY_2,
+				resolvedFrom: 'latest master build',
+				release: { key: BUILD_KEY_2, index: `index_${BUILD_KEY_2}.html`, gitCommit: buildInfo2.gitCommitHash },
+				files: {
+					created: [`files_${BUILD_KEY_2}.json`, `index_${BUILD_KEY_2}.html`],
+					replaced: ['main.js'],
+					unchanged: [],
+				},
+				retention: {
+					policy: { keepLast: 1, keepDays: null },
+					remove: [BUILD_KEY_1],
+					pathsToRemove: [
+						`${GAME}/prod/${PLATFORM}/files_${BUILD_KEY_1}.json`,
+						`${GAME}/prod/${PLATFORM}/index_${BUILD_KEY_1}.html`,
+					],
+				},
+			})
+
+			// nothing is changed
+			expect(fse.readFileSync(path.join(prodDir, 'releases.json'), 'utf-8')).toBe(releasesJson)
+			expect(fse.existsSync(path.join(prodDir, `index_${BUILD_KEY_2}.html`))).toBe(false)
+			expect(fse.readFileSync(path.join(prodDir, 'main.js'), 'utf-8')).toBe('main 1')
+		})
+
+		it('should report the requested build key', async () => {
+			const response = await publish(`${GAME}/${PLATFORM}/${BUILD_KEY_2}?dryRun=true`)
+
+			const data = await response.json()
+			expect(data.resolvedFrom).toBe('request')
+			expect(data.retention.remove).toEqual([])
+		})
+
+		it('should fail if the build was already released', async () => {
+			const response = await publish(`${GAME}/${PLATFORM}/${BUILD_KEY_1}?dryRun=true`)
+
+			expect(response.status).toBe(400)
+		})
+	})
+
+	describe('release trees', () => {
+		const prodDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, 'prod', PLATFORM)
+		const treesDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, 'prod', '.releases', PLATFORM)
+
+		beforeEach(() => {
+			const masterDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, 'master')
+			fse.writeFileSync(path.join(masterDir, BUILD_VERSION_1.toString(), 'main.js'), 'main 1')
+			fse.writeFileSync(path.join(masterDir, BUILD_VERSION_2.toString(), 'main.js'), 'main 2')
+		})
+
+		it('should switch the releases dir to a new tree on each publish', async () => {
+			await publish(`${GAME}/${PLATFORM}/${BUILD_KEY_1}`)
+			const tree1 = fse.realpathSync(prodDir)
+			expect(path.dirname(tree1)).toBe(treesDir)
+
+			await publish(`${GAME}/${PLATFORM}/${BUILD_KEY_2}`)
+			const tree2 = fse.realpathSync(prodDir)
+			expect(tree2).not.toBe(tree1)
+
+			// files of the live tree are never overwritten, the previous tree is removed after the switch
+			expect(fse.readFileSync(path.join(prodDir, 'main.js'), 'utf-8')).toBe('main 2')
+			expect(fse.existsSync(path.join(prodDir, `index_${BUILD_KEY_1}.html`))).toBe(true)
+			expect(fse.readdirSync(treesDir)).toEqual([path.basename(tree2)])
+		})
+
+		it('should move the releases dir published before release trees into a tree', async () => {
+			fse.outputJsonSync(path.join(prodDir, 'releases.json'), { current: '', builds: [] })
+			fse.writeFileSync(path.join(prodDir, 'legacy.js'), 'legacy')
+
+			const response = await publish(`${GAME}/${PLATFORM}/${BUILD_KEY_1}`)
+			expect(response.status).toBe(200)
+
+			expect(fse.lstatSync(prodDir).isSymbolicLink()).toBe(true)
+			expect(fse.readFileSync(path.join(prodDir, 'legacy.js'), 'utf-8')).toBe('legacy')
+			expect(fse.readdirSync(treesDir)).toHaveLength(1)
+		})
+
+		describe('interrupted migration of the releases dir published before release trees', () => {
+			const TREE_1 = `${BUILD_KEY_1}_1710936000000`
+			const legacyDir = path.join(treesDir, 'legacy_1710936000000')
+
+			beforeEach(() => {
+				// publish died after the legacy releases dir was moved away, but before the symlink was put in its place
+				const releases = { current: '', builds: [] }
+				fse.outputJsonSync(path.join(legacyDir, 'releases.json'), releases)
+				fse.writeFileSync(path.join(legacyDir, 'legacy.js'), 'legacy')
+				fse.outputJsonSync(path.join(treesDir, TREE_1, 'releases.json'), { ...releases, current: BUILD_KEY_1 })
+				fse.writeFileSync(path.join(treesDir, TREE_1, 'legacy.js'), 'legacy')
+				fse.symlinkSync(path.join('.releases', PLATFORM, TREE_1), path.join(treesDir, '.releases-dir.tmp'))
+				fse.outputJsonSync(path.join(treesDir, '.publish-journal.json'), {
+					buildKey: BUILD_KEY_1,
+					startedAt: '2024-03-20 12:00:00.000',
+					tree: TREE_1,
+				})
+			})
+
+			it('should put the prepared symlink in place and complete publish', async () => {
+				expect(await recoverPublish(prodDir)).toBe('completed')
+
+				expect(fse.realpathSync(prodDir)).toBe(path.join(treesDir, TREE_1))
+				expect(fse.readJsonSync(path.join(prodDir, 'releases.json')).current).toBe(BUILD_KEY_1)
+				expect(fse.readFileSync(path.join(prodDir, 'legacy.js'), 'utf-8')).toBe('legacy')
+				expect(fse.readdirSync(treesDir)).toEqual([TREE_1])
+			})
+
+			it('should move the legacy releases dir back if there is no prepared symlink', async () => {
+				fse.rmSync(path.join(treesDir, '.releases-dir.tmp'))
+
+				expect(await recoverPublish(prodDir)).toBe('rolledBack')
+
+				expect(fse.lstatSync(prodDir).isDirectory()).toBe(true)
+				expect(fse.readFileSync(path.join(prodDir, 'legacy.js'), 'utf-8')).toBe('legacy')
+				expect(fse.existsSync(legacyDir)).toBe(false)
+				expect(fse.existsSync(path.join(treesDir, TREE_1))).toBe(false)
+			})
+		})
+	})
+
+	describe('interrupted publish', () => {
+		const prodDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, 'prod', PLATFORM)
+		const treesDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, 'prod', '.releases', PLATFORM)
+		const TREE_2 = `${BUILD_KEY_2}_1710936000000`
+
+		const writeJournal = () => {
+			fse.outputJsonSync(path.join(treesDir, '.publish-journal.json'), {
+				buildKey: BUILD_KEY_2,
+				startedAt: '2024-03-20 12:00:00.000',
+				tree: TREE_2,
+			})
+		}
+
+		beforeEach(async () => {
+			await publish(`${GAME}/${PLATFORM}/${BUILD_KEY_1}`)
+		})
+
+		it('should discard the new tree if the releases dir was not switched yet', async () => {
+			// publish of the second build died while its tree was prepared
+			fse.writeFileSync(path.join(treesDir, TREE_2, `index_${BUILD_KEY_2}.html`), '<html>Test Build 2</html>')
+			writeJournal()
+
+			expect(await recoverPublish(prodDir)).toBe('rolledBack')
+
+			expect(fse.existsSync(path.join(treesDir, TREE_2))).toBe(false)
+			expect(fse.existsSync(path.join(prodDir, `index_${BUILD_KEY_2}.html`))).toBe(false)
+			expect(fse.existsSync(path.join(treesDir, '.publish-journal.json'))).toBe(false)
+			expect(fse.readJsonSync(path.join(prodDir, 'releases.json')).current).toBe(BUILD_KEY_1)
+
+			const symlinkTarget = await fse.readlink(path.join(prodDir, 'index.html'))
+			expect(symlinkTarget).toBe(`./index_${BUILD_KEY_1}.html`)
+		})
+
+		it('should complete publish if the releases dir was already switched', async () => {
+			// publish of the second build died right after the switch
+			const tree1 = path.basename(fse.realpathSync(prodDir))
+			const releases = fse.readJsonSync(path.join(prodDir, 'releases.json'))
+			releases.current = BUILD_KEY_2
+			releases.builds.unshift({ ...releases.builds[0], key: BUILD_KEY_2, index: `index_${BUILD_KEY_2}.html` })
+			fse.outputJsonSync(path.join(treesDir, TREE_2, 'releases.json'), releases)
+			fse.writeFileSync(path.join(treesDir, TREE_2, `index_${BUILD_KEY_2}.html`), '<html>Test Build 2</html>')
+			fse.symlinkSync(`./index_${BUILD_KEY_2}.html`, path.join(treesDir, TREE_2, 'index.html'))
+			fse.rmSync(prodDir)
+			fse.symlinkSync(path.join('.releases', PLATFORM, TREE_2), prodDir)
+			writeJournal()
+
+			expect(await recoverPublish(prodDir)).toBe('completed')
+
+			expect(fse.readJsonSync(path.join(prodDir, 'releases.json')).current).toBe(BUILD_KEY_2)
+			expect(fse.existsSync(path.join(treesDir, tree1))).toBe(false)
+			expect(fse.existsSync(path.join(treesDir, '.publish-journal.json'))).toBe(false)
+		})
+
+		it('should recover interrupted publish before publishing a new build', async () => {
+			fse.ensureDirSync(path.join(treesDir, `.staging_${BUILD_KEY_2}`))
+			writeJournal()
+
+			const response = await publish(`${GAME}/${PLATFORM}/${BUILD_KEY_2}`)
+			expect(response.status).toBe(200)
+
+			expect(fse.existsSync(path.join(treesDir, '.publish-journal.json'))).toBe(false)
+			expect(fse.existsSync(path.join(treesDir, `.staging_${BUILD_KEY_2}`))).toBe(false)
+			expect(fse.readJsonSync(path.join(prodDir, 'releases.json')).current).toBe(BUILD_KEY_2)
+		})
+	})
 })
@@ -0,0 +1,188 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+
+describe('retention policies', () => {
+	const GAME = 'test-game'
+	const ENV = 'develop'
+	const PLATFORM = 'web'
+	const envDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, ENV)
+	const releasesDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, 'prod', PLATFORM)
+
+	const buildInfo = (version: number) =>
+		JSON.stringify({
+			version,
+			builtAt: Date.now(),
+			builtAtReadable: '2024-03-20 12:00:00',
+			gitCommitHash: 'abc123',
+			gitBranch: 'develop',
+		})
+
+	const release = (key: string, releasedAt: string) => ({
+		key,
+		index: `index_${key}.html`,
+		files: `files_${key}.json`,
+		releasedAt,
+		builtAt: releasedAt,
+		gitBranch: 'master',
+		gitCommit: 'abc123',
+	})
+
+	const putConfig = (config: unknown) =>
+		app.fetch(
+			new Request(`http://localhost/config/${GAME}`, {
+				method: 'PUT',
+				body: JSON.stringify(config),
+				headers: { 'Content-Type': 'application/json' },
+			}),
+		)
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	beforeEach(() => {
+		resetFsExtra()
+
+		vol.fromNestedJSON(
+			{
+				[envDir]: Object.fromEntries(
+					[1, 2, 3, 4].map((version) => [
+						version.toString(),
+						{ 'build_info.json': buildInfo(version), 'index.html': `<html>${version}</html>` },
+					]),
+				),
+				[releasesDir]: {
+					'releases.json': JSON.stringify({
+						current: 'master-1',
+						builds: [
+							release('master-3', '2024-03-22 12:00:00'),
+							release('master-2', '2024-03-21 12:00:00'),
+							release('master-1', '2024-03-20 12:00:00'),
+						],
+					}),
+					'files_master-1.json': JSON.stringify(['index_master-1.html']),
+					'files_master-2.json': JSON.stringify(['index_master-2.html']),
+					'files_master-3.json': JSON.stringify(['index_master-3.html']),
+				},
+			},
+			'/',
+		)
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	describe('/config/:game', () => {
+		it('should return empty config by default', async () => {
+			const response = await get(`config/${GAME}`)
+
+			expect(response.status).toBe(200)
+			expect(await response.json()).toEqual({})
+		})
+
+		it('should save and return the config', async () => {
+			const config = {
+				retention: { deployments: { default: { keepLast: 3 }, envs: { [ENV]: { keepDays: 7 } } } },
+			}
+
+			const putResponse = await putConfig(config)
+			expect(putResponse.status).toBe(200)
+
+			const getResponse = await get(`config/${GAME}`)
+			expect(await getResponse.json()).toEqual(config)
+		})
+
+		it('should reject invalid config', async () => {
+			const response = await putConfig({ retention: { deployments: { default: { keepLast: -1 } } } })
+
+			expect(response.status).toBe(400)
+			const data = await response.json()
+			expect(data.message).toBe('config is invalid')
+		})
+	})
+
+	describe('GET /retention/:game/deployments/:env', () => {
+		it('should keep the last 10 builds by default', async () => {
+			const response = await get(`retention/${GAME}/deployments/${ENV}`)
+
+			expect(response.status).toBe(200)
+			const data = await response.json()
+			expect(data.policy).toEqual({ keepLast: 10, keepDays: null })
+			expect(data.keep).toEqual([4, 3, 2, 1])
+			expect(data.remove).toEqual([])
+		})
+
+		it('should apply environment override and keep the latest build', async () => {
+			fse.symlinkSync('1', path.join(envDir, 'latest'))
+			await putConfig({
+				retention: { deployments: { default: { keepLast: 5 }, envs: { [ENV]: { keepLast: 2 } } } },
+			})
+
+			const response = await get(`retention/${GAME}/deployments/${ENV}`)
+
+			const data = await response.json()
+			expect(data.policy).toEqual({ keepLast: 2, keepDays: null })
+			expect(data.keep).toEqual([4, 3, 1])
+			expect(data.remove).toEqual([2])
+			expect(data.pathsToRemove).toEqual([path.join(GAME, ENV, '2')])
+
+			// dry run doesn't remove anything
+			expect(fse.existsSync(path.join(envDir, '2'))).toBe(true)
+		})
+
+		it('should keep builds newer than keepDays', async () => {
+			await putConfig({ retention: { deployments: { default: { keepLast: 1, keepDays: 1 } } } })
+
+			const response = await get(`retention/${GAME}/deployments/${ENV}`)
+
+			const data = await response.json()
+			expect(data.remove).toEqual([])
+		})
+	})
+
+	describe('GET /retention/:game/releases/:platform', () => {
+		it('should keep the current release', async () => {
+			await putConfig({ retention: { releases: { platforms: { [PLATFORM]: { keepLast: 1 } } } } })
+
+			const response = await get(`retention/${GAME}/releases/${PLATFORM}`)
+
+			expect(response.status).toBe(200)
+			const data = await response.json()
+			expect(data.policy).toEqual({ keepLast: 1, keepDays: null })
+			expect(data.keep).toEqual(['master-3', 'master-1'])
+			expect(data.remove).toEqual(['master-2'])
+		})
+
+		it('should fail if the platform has no releases', async () => {
+			const response = await get(`retention/${GAME}/releases/android`)
+
+			expect(response.status).toBe(404)
+		})
+	})
+
+	it('should apply the policy on /postDeploy', async () => {
+		await putConfig({ retention: { deployments: { envs: { [ENV]: { keepLast: 2 } } } } })
+
+		const response = await get(`postDeploy/${GAME}/${ENV}/4`)
+		expect(response.status).toBe(200)
+
+		expect(fse.readdirSync(envDir).sort()).toEqual(['3', '4', 'latest'])
+	})
+})
@@ -0,0 +1,122 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+
+describe('/rollbackDeployment endpoint', () => {
+	const GAME = 'test-game'
+	const ENV = 'develop'
+	const envDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, ENV)
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	beforeEach(async () => {
+		resetFsExtra()
+
+		vol.fromNestedJSON(
+			{
+				[envDir]: Object.fromEntries(
+					[1, 2, 3].map((version) => [
+						version.toString(),
+						{
+							'build_info.json': JSON.stringify({
+								version,
+								builtAt: Date.now(),
+								builtAtReadable: '2024-03-20 12:00:00',
+								gitCommitHash: `commit${version}`,
+								gitBranch: 'develop',
+							}),
+							'index.html': `<html>${version}</html>`,
+						},
+					]),
+				),
+			},
+			'/',
+		)
+
+		for (const version of [1, 2, 3]) {
+			await get(`postDeploy/${GAME}/${ENV}/${version}`)
+		}
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should roll back to the previously deployed build', async () => {
+		const response = await get(`rollbackDeployment/${GAME}/${ENV}`)
+
+		expect(response.status).toBe(200)
+		const data = await response.json()
+		expect(data).toMatchObject({ buildVersion: '2', previousBuildVersion: '3' })
+
+		expect(fse.readlinkSync(path.join(envDir, 'latest'))).toBe('2')
+
+		const current = await (await get(`deployments/${GAME}/${ENV}/current`)).json()
+		expect(current.version).toBe(2)
+
+		const history = await (await get(`deployments/${GAME}/${ENV}/history`)).json()
+		expect(history.entries[0]).toMatchObject({ type: 'rollback', version: 2, identity: 'anonymous' })
+	})
+
+	it('should roll back to the specified build', async () => {
+		const response = await get(`rollbackDeployment/${GAME}/${ENV}/1`)
+
+		expect(response.status).toBe(200)
+		expect(fse.readlinkSync(path.join(envDir, 'latest'))).toBe('1')
+
+		// next rollback without version goes back to the build that was current before
+		const secondResponse = await get(`rollbackDeployment/${GAME}/${ENV}`)
+		expect((await secondResponse.json()).buildVersion).toBe('3')
+	})
+
+	it('should fail if the build is current', async () => {
+		const response = await get(`rollbackDeployment/${GAME}/${ENV}/3`)
+
+		expect(response.status).toBe(400)
+		expect((await response.json()).message).toContain('is current deployment')
+	})
+
+	it('should fail if the build does not exist', async () => {
+		const response = await get(`rollbackDeployment/${GAME}/${ENV}/99`)
+
+		expect(response.status).toBe(404)
+		expect(fse.readlinkSync(path.join(envDir, 'latest'))).toBe('3')
+	})
+
+	it('should fail if the build is not deployed yet', async () => {
+		expect((await get(`preDeploy/${GAME}/${ENV}/4`)).status).toBe(200)
+
+		const response = await get(`rollbackDeployment/${GAME}/${ENV}/4`)
+
+		expect(response.status).toBe(400)
+		expect((await response.json()).message).toContain('is not deployed yet')
+		expect(fse.readlinkSync(path.join(envDir, 'latest'))).toBe('3')
+	})
+
+	it('should validate the build', async () => {
+		fse.rmSync(path.join(envDir, '2', 'index.html'))
+
+		const response = await get(`rollbackDeployment/${GAME}/${ENV}/2`)
+
+		expect(response.status).toBe(404)
+		expect((await response.json()).message).toContain("doesn't have index.html")
+		expect(fse.readlinkSync(path.join(envDir, 'latest'))).toBe('3')
+	})
+})
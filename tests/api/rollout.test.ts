@@ -0,0 +1,135 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+import { buildFiles, request } from '../helpers/fixtures'
+
+describe('staged rollout', () => {
+	const GAME = 'test-game'
+	const PLATFORM = 'web'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+	const releasesDir = path.join(gameDir, 'prod', PLATFORM)
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	const readReleases = () => fse.readJsonSync(path.join(releasesDir, 'releases.json'))
+
+	const readIndexHtml = () => fse.readFileSync(path.join(releasesDir, 'index.html'), 'utf-8')
+
+	beforeEach(async () => {
+		resetFsExtra()
+
+		vol.fromNestedJSON(
+			{ [path.join(gameDir, 'master')]: { '1': buildFiles(1), '2': buildFiles(2), '3': buildFiles(3) } },
+			'/',
+		)
+
+		await get(`publish/${GAME}/${PLATFORM}/master-1`)
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should publish the build as the rollout candidate', async () => {
+		const response = await get(`publish/${GAME}/${PLATFORM}/master-2?rollout=10`)
+
+		expect(response.status).toBe(200)
+
+		const releases = readReleases()
+		expect(releases.current).toBe('master-1')
+		expect(releases.rollout).toMatchObject({ candidate: 'master-2', percentage: 10, startedBy: 'anonymous' })
+
+		// index.html is the entry file that picks the release by the player bucket
+		expect(fse.lstatSync(path.join(releasesDir, 'index.html')).isSymbolicLink()).toBe(false)
+		expect(readIndexHtml()).toContain(`bucket < 10 ? 'index_master-2.html' : 'index_master-1.html'`)
+
+		const rolloutResponse = await get(`rollout/${GAME}/${PLATFORM}`)
+		expect(await rolloutResponse.json()).toMatchObject({
+			current: 'master-1',
+			candidate: 'master-2',
+			percentage: 10,
+		})
+	})
+
+	it('should ramp the percentage up', async () => {
+		await get(`publish/${GAME}/${PLATFORM}/master-2?rollout=10`)
+
+		const response = await request('PUT', `rollout/${GAME}/${PLATFORM}`, { body: { percentage: 50 } })
+
+		expect(response.status).toBe(200)
+		expect(readReleases().rollout.percentage).toBe(50)
+		expect(readIndexHtml()).toContain(`bucket < 50 ? 'index_master-2.html' : 'index_master-1.html'`)
+	})
+
+	it('should reject invalid percentage', async () => {
+		const publishResponse = await get(`publish/${GAME}/${PLATFORM}/master-2?rollout=150`)
+		expect(publishResponse.status).toBe(400)
+
+		await get(`publish/${GAME}/${PLATFORM}/master-2?rollout=10`)
+
+		const response = await request('PUT', `rollout/${GAME}/${PLATFORM}`, { body: { percentage: -1 } })
+		expect(response.status).toBe(400)
+	})
+
+	it('should complete the rollout', async () => {
+		await get(`publish/${GAME}/${PLATFORM}/master-2?rollout=10`)
+
+		const response = await request('POST', `rollout/${GAME}/${PLATFORM}/complete`)
+
+		expect(response.status).toBe(200)
+		expect((await response.json()).release.key).toBe('master-2')
+
+		const releases = readReleases()
+		expect(releases.current).toBe('master-2')
+		expect(releases.rollout).toBeUndefined()
+		expect(await fse.readlink(path.join(releasesDir, 'index.html'))).toBe('./index_master-2.html')
+	})
+
+	it('should abort the rollout back to the current release', async () => {
+		await get(`publish/${GAME}/${PLATFORM}/master-2?rollout=10`)
+
+		const response = await request('POST', `rollout/${GAME}/${PLATFORM}/abort`)
+
+		expect(response.status).toBe(200)
+		expect(await response.json()).toMatchObject({ abortedCandidate: 'master-2', release: { key: 'master-1' } })
+
+		const releases = readReleases()
+		expect(releases.current).toBe('master-1')
+		expect(releases.rollout).toBeUndefined()
+		expect(await fse.readlink(path.join(releasesDir, 'index.html'))).toBe('./index_master-1.html')
+	})
+
+	it('should not publish or roll back while the rollout is in progress', async () => {
+		await get(`publish/${GAME}/${PLATFORM}/master-2?rollout=10`)
+
+		const publishResponse = await get(`publish/${GAME}/${PLATFORM}/master-3`)
+		expect(publishResponse.status).toBe(400)
+
+		const rollbackResponse = await get(`rollback/${GAME}/${PLATFORM}/master-2`)
+		expect(rollbackResponse.status).toBe(400)
+	})
+
+	it('should fail if there is no rollout in progress', async () => {
+		const response = await request('POST', `rollout/${GAME}/${PLATFORM}/complete`)
+
+		expect(response.status).toBe(404)
+		expect((await response.json()).message).toBe(`platform '${PLATFORM}' doesn't have a rollout in progress`)
+	})
+})
@@ -0,0 +1,147 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import { runScheduledActions } from '../../src/index'
+import { buildFiles, request } from '../helpers/fixtures'
+
+describe('scheduled actions', () => {
+	const GAME = 'test-game'
+	const PLATFORM = 'web'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+	const releasesDir = path.join(gameDir, 'prod', PLATFORM)
+
+	const NOW = new Date('2024-03-20T09:00:00Z').getTime()
+	const RUN_AT = '2024-03-20T10:00:00Z'
+
+	const schedule = (body: unknown) => request('POST', `schedule/${GAME}`, { body, token: 'alice-token' })
+
+	const getHistory = async () => (await (await request('GET', `releases/${GAME}/${PLATFORM}/history`)).json()).entries
+
+	beforeEach(() => {
+		resetFsExtra()
+		vi.useFakeTimers({ toFake: ['Date'] })
+		vi.setSystemTime(NOW)
+
+		vol.fromNestedJSON({ [path.join(gameDir, 'master')]: { '1': buildFiles(1), '2': buildFiles(2) } }, '/')
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should schedule, list and cancel actions', async () => {
+		const response = await schedule({ type: 'publish', platform: PLATFORM, buildKey: 'master-1', runAt: RUN_AT })
+
+		expect(response.status).toBe(200)
+		const action = await response.json()
+		expect(action).toMatchObject({
+			type: 'publish',
+			game: GAME,
+			platform: PLATFORM,
+			channel: 'prod',
+			buildKey: 'master-1',
+			runAt: '2024-03-20T10:00:00.000Z',
+			createdBy: 'alice',
+		})
+
+		const listResponse = await request('GET', `schedule/${GAME}`)
+		expect((await listResponse.json()).map((item: { id: string }) => item.id)).toEqual([action.id])
+
+		const cancelResponse = await request('DELETE', `schedule/${GAME}/${action.id}`)
+		expect(cancelResponse.status).toBe(200)
+
+		const emptyListResponse = await request('GET', `schedule/${GAME}`)
+		expect(await emptyListResponse.json()).toEqual([])
+
+		const secondCancelResponse = await request('DELETE', `schedule/${GAME}/${action.id}`)
+		expect(secondCancelResponse.status).toBe(404)
+	})
+
+	it('should reject invalid actions', async () => {
+		const pastResponse = await schedule({ type: 'publish', platform: PLATFORM, runAt: '2024-03-20T08:00:00Z' })
+		expect(pastResponse.status).toBe(400)
+
+		const invalidResponse = await schedule({ type: 'deploy', platform: PLATFORM, runAt: RUN_AT })
+		expect(invalidResponse.status).toBe(400)
+
+		const channelResponse = await schedule({ type: 'publish', platform: PLATFORM, channel: 'beta', runAt: RUN_AT })
+		expect(channelResponse.status).toBe(404)
+	})
+
+	it('should execute due actions and record them in the release history', async () => {
+		await schedule({ type: 'publish', platform: PLATFORM, buildKey: 'master-1', runAt: RUN_AT })
+		await schedule({ type: 'publish', platform: PLATFORM, buildKey: 'master-2', runAt: '2024-03-20T11:00:00Z' })
+
+		expect(await runScheduledActions()).toEqual([])
+		expect(fse.existsSync(releasesDir)).toBe(false)
+
+		vi.setSystemTime(new Date('2024-03-20T10:00:30Z'))
+		const executed = await runScheduledActions()
+
+		expect(executed.map((item) => item.buildKey)).toEqual(['master-1'])
+		expect(fse.readJsonSync(path.join(releasesDir, 'releases.json')).current).toBe('master-1')
+
+		const history = await getHistory()
+		expect(history).toEqual([
+			{
+				type: 'publish',
+				buildKey: 'master-1',
+				at: expect.any(String),
+				identity: 'alice',
+				scheduledActionId: executed[0].id,
+			},
+		])
+
+		// the executed action is removed from the schedule
+		const listResponse = await request('GET', `schedule/${GAME}`)
+		expect((await listResponse.json()).map((item: { buildKey: string }) => item.buildKey)).toEqual(['master-2'])
+	})
+
+	it('should record failed actions in the release history', async () => {
+		await schedule({ type: 'rollback', platform: PLATFORM, runAt: RUN_AT })
+
+		vi.setSystemTime(new Date('2024-03-20T10:00:00Z'))
+		const [action] = await runScheduledActions()
+
+		expect(await getHistory()).toEqual([
+			{
+				type: 'rollback',
+				buildKey: null,
+				at: expect.any(String),
+				identity: 'alice',
+				scheduledActionId: action.id,
+				error: '400 there are no previous releases',
+			},
+		])
+		expect(await runScheduledActions()).toEqual([])
+	})
+
+	it('should record manual publishes and rollbacks in the release history', async () => {
+		await request('GET', `publish/${GAME}/${PLATFORM}/master-1`)
+		await request('GET', `publish/${GAME}/${PLATFORM}/master-2`, { token: 'ci-token' })
+		await request('GET', `rollback/${GAME}/${PLATFORM}`)
+
+		expect(await getHistory()).toMatchObject([
+			{ type: 'rollback', buildKey: 'master-1', identity: 'anonymous' },
+			{ type: 'publish', buildKey: 'master-2', identity: 'ci' },
+			{ type: 'publish', buildKey: 'master-1', identity: 'anonymous' },
+		])
+	})
+})
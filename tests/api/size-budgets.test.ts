@@ -0,0 +1,128 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the app after the mocks
+import app from '../../src/index'
+import { buildFiles, request } from '../helpers/fixtures'
+
+describe('size budgets', () => {
+	const GAME = 'test-game'
+	const ENV = 'develop'
+	const envDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME, ENV)
+
+	const build = (version: number, files: Record<string, string>) => ({
+		[path.join(envDir, version.toString())]: buildFiles(version, files, {
+			gitCommitHash: 'abc123',
+			gitBranch: 'develop',
+		}),
+	})
+
+	const putConfig = (config: unknown) => request('PUT', `config/${GAME}`, { body: config })
+
+	const get = (pathname: string) => app.fetch(new Request(`http://localhost/${pathname}`))
+
+	beforeEach(async () => {
+		resetFsExtra()
+
+		vol.fromNestedJSON(
+			{
+				...build(1, { 'index.html': '0123456789', 'js/main.js': '0123456789' }),
+				...build(2, {
+					'index.html': '0123456789',
+					'js/main.js': '01234567890123456789',
+					'js/vendor.js': '0123456789',
+					'atlas.png': '01234',
+				}),
+			},
+			'/',
+		)
+
+		await get(`postDeploy/${GAME}/${ENV}/1`)
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should report size of the build and the delta against the previous latest build', async () => {
+		const response = await get(`postDeploy/${GAME}/${ENV}/2`)
+
+		expect(response.status).toBe(200)
+		const { sizeReport } = await response.json()
+		expect(sizeReport).toEqual({
+			totalSize: 45,
+			filesNum: 4,
+			largestFiles: [
+				{ path: 'js/main.js', size: 20 },
+				{ path: 'index.html', size: 10 },
+				{ path: 'js/vendor.js', size: 10 },
+				{ path: 'atlas.png', size: 5 },
+			],
+			byExtension: { '.html': 10, '.js': 30, '.png': 5 },
+			previous: { version: '1', totalSize: 20, sizeDelta: 25, addedNum: 2, removedNum: 0, modifiedNum: 1 },
+			budgets: { mode: 'warn', violations: [] },
+		})
+	})
+
+	it('should only report violations of warn-only budgets', async () => {
+		await putConfig({ sizeBudgets: { default: { maxTotalSize: 40, maxFileSize: 15, globs: { '*.js': 25 } } } })
+
+		const response = await get(`postDeploy/${GAME}/${ENV}/2`)
+
+		expect(response.status).toBe(200)
+		const { sizeReport } = await response.json()
+		expect(sizeReport.budgets).toEqual({
+			mode: 'warn',
+			violations: [
+				{ budget: 'maxTotalSize', limit: 40, size: 45 },
+				{ budget: 'maxFileSize', limit: 15, size: 20, path: 'js/main.js' },
+				{ budget: '*.js', limit: 25, size: 30 },
+			],
+		})
+		expect(fse.realpathSync(path.join(envDir, 'latest'))).toBe(path.join(envDir, '2'))
+	})
+
+	it('should fail the deploy if blocking budgets are exceeded', async () => {
+		await putConfig({
+			sizeBudgets: {
+				default: { maxTotalSize: 1000 },
+				envs: { [ENV]: { mode: 'block', globs: { 'js/**': 25 } } },
+			},
+		})
+
+		const response = await get(`postDeploy/${GAME}/${ENV}/2`)
+
+		expect(response.status).toBe(400)
+		const data = await response.json()
+		expect(data.message).toBe(`build '2' exceeds size budgets`)
+		expect(data.sizeReport.budgets.violations).toEqual([{ budget: 'js/**', limit: 25, size: 30 }])
+
+		// the build is not deployed
+		expect(fse.realpathSync(path.join(envDir, 'latest'))).toBe(path.join(envDir, '1'))
+	})
+
+	it('should deploy the build if blocking budgets are met', async () => {
+		await putConfig({ sizeBudgets: { default: { mode: 'block', maxTotalSize: 45, globs: { '*.png': 5 } } } })
+
+		const response = await get(`postDeploy/${GAME}/${ENV}/2`)
+
+		expect(response.status).toBe(200)
+		const { sizeReport } = await response.json()
+		expect(sizeReport.budgets).toEqual({ mode: 'block', violations: [] })
+	})
+})
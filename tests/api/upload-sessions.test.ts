@@ -0,0 +1,159 @@
+import * as fse from 'fs-extra'
+import os from 'os'
+import path from 'path'
+import * as tar from 'tar'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Archives are extracted with node fs, so these tests use a real temporary directory instead of memfs
+const testEnv = vi.hoisted(() => ({
+	BEARER_TOKEN: 'test-token',
+	GAME_BUILDS_DIR: '',
+	GAME_BUILDS_DIR_HOST: '/host',
+	AUTH_REQUIRED: false,
+	LOCK_STALE_MINUTES: 30,
+	PENDING_DEPLOY_TTL_HOURS: 24,
+	UPLOAD_SESSION_TTL_HOURS: 24,
+}))
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: testEnv,
+}))
+
+// Import the app after the mocks
+import app from '../../src/index'
+import { getDeployLockKey } from '../../src/locks/lock-middleware'
+import { acquireLock, releaseLock } from '../../src/locks/locks'
+import { removeAbandonedUploadSessions } from '../../src/upload/upload-sessions'
+
+describe('/uploads endpoints', () => {
+	const GAME = 'test-game'
+	const ENV = 'develop'
+	const VERSION = '12'
+	const CHUNKS_NUM = 3
+
+	let chunks: Buffer[]
+
+	const request = (method: string, pathname: string, body?: BodyInit) =>
+		app.fetch(new Request(`http://localhost/uploads/${pathname}`, { method, body }))
+
+	const startSession = async (totalChunks = CHUNKS_NUM) => {
+		const response = await request('POST', `${GAME}/${ENV}/${VERSION}`, JSON.stringify({ totalChunks }))
+		return response.json()
+	}
+
+	beforeEach(async () => {
+		const tempDir = fse.mkdtempSync(path.join(os.tmpdir(), 'release-o-matic-'))
+		testEnv.GAME_BUILDS_DIR = path.join(tempDir, 'builds')
+
+		await app.fetch(new Request(`http://localhost/preDeploy/${GAME}/${ENV}/${VERSION}`))
+
+		const srcDir = path.join(tempDir, 'src')
+		fse.outputJsonSync(path.join(srcDir, 'build_info.json'), {
+			version: 12,
+			builtAt: Date.now(),
+			builtAtReadable: '2024-03-20 12:00:00',
+			gitCommitHash: 'abc123',
+			gitBranch: 'develop',
+		})
+		fse.outputFileSync(path.join(srcDir, 'index.html'), '<html>Build 12</html>')
+		fse.outputFileSync(path.join(srcDir, 'atlas.png'), 'x'.repeat(10000))
+
+		const archivePath = path.join(tempDir, 'build.tar.gz')
+		await tar.c({ file: archivePath, cwd: srcDir, gzip: true }, ['build_info.json', 'index.html', 'atlas.png'])
+
+		const archive = fse.readFileSync(archivePath)
+		const chunkSize = Math.ceil(archive.length / CHUNKS_NUM)
+		chunks = Array.from({ length: CHUNKS_NUM }, (_, i) => archive.subarray(i * chunkSize, (i + 1) * chunkSize))
+	})
+
+	afterEach(() => {
+		fse.rmSync(path.dirname(testEnv.GAME_BUILDS_DIR), { recursive: true, force: true })
+	})
+
+	it('should upload chunks out of order and finalize the deployment', async () => {
+		const session = await startSession()
+		expect(session.resumed).toBe(false)
+
+		await request('PUT', `${session.id}/chunks/2`, chunks[2])
+		await request('PUT', `${session.id}/chunks/0`, chunks[0])
+
+		const statusResponse = await request('GET', session.id)
+		const status = await statusResponse.json()
+		expect(status.receivedChunks).toEqual([0, 2])
+		expect(status.missingChunks).toEqual([1])
+
+		const incompleteResponse = await request('POST', `${session.id}/finalize`)
+		expect(incompleteResponse.status).toBe(400)
+		expect(await incompleteResponse.json()).toMatchObject({ missingChunks: [1] })
+
+		await request('PUT', `${session.id}/chunks/1`, chunks[1])
+
+		const response = await request('POST', `${session.id}/finalize`)
+		expect(response.status).toBe(200)
+		expect(await response.json()).toMatchObject({ buildVersion: VERSION, filesNum: 3 })
+
+		const latestDir = path.join(testEnv.GAME_BUILDS_DIR, GAME, ENV, 'latest')
+		expect(fse.readFileSync(path.join(latestDir, 'atlas.png'), 'utf-8')).toBe('x'.repeat(10000))
+
+		// session is removed after finalization
+		expect((await request('GET', session.id)).status).toBe(404)
+	})
+
+	it('should resume unfinished session for the same build', async () => {
+		const session = await startSession()
+		await request('PUT', `${session.id}/chunks/0`, chunks[0])
+
+		const resumedSession = await startSession()
+		expect(resumedSession).toMatchObject({ id: session.id, resumed: true, receivedChunks: [0] })
+	})
+
+	it('should not lower totalChunks below the received chunks', async () => {
+		const session = await startSession()
+		await request('PUT', `${session.id}/chunks/2`, chunks[2])
+
+		const response = await request('POST', `${GAME}/${ENV}/${VERSION}`, JSON.stringify({ totalChunks: 2 }))
+		expect(response.status).toBe(400)
+		expect((await response.json()).message).toContain('already has chunk 2')
+
+		expect(await (await request('GET', session.id)).json()).toMatchObject({ totalChunks: CHUNKS_NUM })
+	})
+
+	it('should reject chunk index out of range', async () => {
+		const session = await startSession()
+
+		const response = await request('PUT', `${session.id}/chunks/${CHUNKS_NUM}`, chunks[0])
+		expect(response.status).toBe(400)
+	})
+
+	it('should abort the session', async () => {
+		const session = await startSession()
+
+		const response = await request('DELETE', session.id)
+		expect(response.status).toBe(200)
+
+		expect((await request('GET', session.id)).status).toBe(404)
+	})
+
+	it('should not abort the session while the environment is locked', async () => {
+		const session = await startSession()
+
+		const lock = await acquireLock(getDeployLockKey(GAME, ENV), 'finalize')
+		try {
+			expect((await request('DELETE', session.id)).status).toBe(423)
+		} finally {
+			releaseLock(lock)
+		}
+
+		expect((await request('GET', session.id)).status).toBe(200)
+	})
+
+	it('should remove abandoned sessions', async () => {
+		const session = await startSession()
+
+		expect(removeAbandonedUploadSessions(60 * 60 * 1000)).toEqual([])
+		expect(removeAbandonedUploadSessions(-1000).map((item) => item.id)).toEqual([session.id])
+
+		expect((await request('GET', session.id)).status).toBe(404)
+	})
+})
@@ -0,0 +1,172 @@
+import * as fse from 'fs-extra'
+import os from 'os'
+import path from 'path'
+import * as tar from 'tar'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Archives are extracted with node fs, so these tests use a real temporary directory instead of memfs
+const testEnv = vi.hoisted(() => ({
+	BEARER_TOKEN: 'test-token',
+	GAME_BUILDS_DIR: '',
+	GAME_BUILDS_DIR_HOST: '/host',
+	AUTH_REQUIRED: false,
+	LOCK_STALE_MINUTES: 30,
+	PENDING_DEPLOY_TTL_HOURS: 24,
+}))
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: testEnv,
+}))
+
+// Import the app after the mocks
+import app from '../../src/index'
+
+describe('/upload endpoints', () => {
+	const GAME = 'test-game'
+	const ENV = 'develop'
+	const VERSION = '12'
+
+	const buildInfo = {
+		version: 12,
+		builtAt: Date.now(),
+		builtAtReadable: '2024-03-20 12:00:00',
+		gitCommitHash: 'abc123',
+		gitBranch: 'develop',
+	}
+
+	let srcDir: string
+
+	const upload = (pathname: string, body: BodyInit) =>
+		app.fetch(new Request(`http://localhost/upload/${pathname}`, { method: 'POST', body }))
+
+	const createArchive = async (files: Record<string, string>, options: { gzip?: boolean } = {}) => {
+		fse.emptyDirSync(srcDir)
+		Object.entries(files).forEach(([filepath, content]) => fse.outputFileSync(path.join(srcDir, filepath), content))
+
+		const archivePath = path.join(testEnv.GAME_BUILDS_DIR, '..', `build.tar${options.gzip ? '.gz' : ''}`)
+		await tar.c({ file: archivePath, cwd: srcDir, gzip: options.gzip }, Object.keys(files))
+
+		return fse.readFileSync(archivePath)
+	}
+
+	beforeEach(async () => {
+		const tempDir = fse.mkdtempSync(path.join(os.tmpdir(), 'release-o-matic-'))
+		testEnv.GAME_BUILDS_DIR = path.join(tempDir, 'builds')
+		srcDir = path.join(tempDir, 'src')
+
+		// build dir prepared by /preDeploy with a copy of the previous build
+		await app.fetch(new Request(`http://localhost/preDeploy/${GAME}/${ENV}/${VERSION}`))
+		fse.outputFileSync(path.join(testEnv.GAME_BUILDS_DIR, GAME, ENV, VERSION, 'stale.js'), 'stale')
+	})
+
+	afterEach(() => {
+		fse.rmSync(path.dirname(testEnv.GAME_BUILDS_DIR), { recursive: true, force: true })
+	})
+
+	describe('POST /upload/:game/:env/:version', () => {
+		it('should extract tar.gz archive and finalize the deployment', async () => {
+			const archive = await createArchive(
+				{
+					'build_info.json': JSON.stringify(buildInfo),
+					'index.html': '<html>Build 12</html>',
+					'js/main.js': 'main',
+				},
+				{ gzip: true },
+			)
+
+			const response = await upload(`${GAME}/${ENV}/${VERSION}`, archive)
+			expect(response.status).toBe(200)
+
+			const data = await response.json()
+			expect(data).toEqual({
+				buildVersion: VERSION,
+				buildDir: `${GAME}/${ENV}/${VERSION}`,
+				buildDirAlias: `${GAME}/${ENV}/latest`,
+				filesNum: 3,
+				manifestVerified: false,
+				signedBy: null,
+				sizeReport: expect.objectContaining({ totalSize: 25, filesNum: 2 }),
+			})
+
+			const envDir = path.join(testEnv.GAME_BUILDS_DIR, GAME, ENV)
+			expect(fse.readFileSync(path.join(envDir, 'latest', 'js/main.js'), 'utf-8')).toBe('main')
+			expect(fse.existsSync(path.join(envDir, VERSION, 'stale.js'))).toBe(false)
+		})
+
+		it('should keep existing files when clean=false', async () => {
+			const archive = await createArchive({
+				'build_info.json': JSON.stringify(buildInfo),
+				'index.html': '<html>Build 12</html>',
+			})
+
+			const response = await upload(`${GAME}/${ENV}/${VERSION}?clean=false`, archive)
+			expect(response.status).toBe(200)
+
+			const buildDir = path.join(testEnv.GAME_BUILDS_DIR, GAME, ENV, VERSION)
+			expect(fse.existsSync(path.join(buildDir, 'stale.js'))).toBe(true)
+			expect(fse.existsSync(path.join(buildDir, 'index.html'))).toBe(true)
+		})
+
+		it('should fail if build directory was not prepared', async () => {
+			const archive = await createArchive({ 'index.html': '<html></html>' })
+
+			const response = await upload(`${GAME}/${ENV}/999`, archive)
+			expect(response.status).toBe(404)
+
+			const data = await response.json()
+			expect(data.message).toContain('/preDeploy')
+		})
+
+		it('should not overwrite a deployed build', async () => {
+			const archive = await createArchive({
+				'build_info.json': JSON.stringify(buildInfo),
+				'index.html': '<html>Build 12</html>',
+			})
+			expect((await upload(`${GAME}/${ENV}/${VERSION}`, archive)).status).toBe(200)
+
+			const response = await upload(
+				`${GAME}/${ENV}/${VERSION}`,
+				await createArchive({ 'index.html': '<html></html>' }),
+			)
+			expect(response.status).toBe(400)
+			expect((await response.json()).message).toContain('is already deployed')
+
+			const envDir = path.join(testEnv.GAME_BUILDS_DIR, GAME, ENV)
+			expect(fse.readFileSync(path.join(envDir, 'latest', 'index.html'), 'utf-8')).toBe('<html>Build 12</html>')
+			expect(fse.existsSync(path.join(envDir, VERSION, 'build_info.json'))).toBe(true)
+		})
+
+		it('should fail if archive has no build_info.json', async () => {
+			const archive = await createArchive({ 'index.html': '<html></html>' })
+
+			const response = await upload(`${GAME}/${ENV}/${VERSION}`, archive)
+			expect(response.status).toBe(404)
+
+			const data = await response.json()
+			expect(data.message).toContain('build_info.json')
+		})
+
+		it('should reject corrupted archives', async () => {
+			const archive = await createArchive(
+				{ 'build_info.json': JSON.stringify(buildInfo), 'index.html': '<html>Build 12</html>' },
+				{ gzip: true },
+			)
+
+			const response = await upload(`${GAME}/${ENV}/${VERSION}`, archive.subarray(0, archive.length / 2))
+			expect(response.status).toBe(400)
+
+			const data = await response.json()
+			expect(data.message).toContain('invalid tar archive')
+		})
+
+		it('should reject unsupported archive formats', async () => {
+			const response = await upload(`${GAME}/${ENV}/${VERSION}`, 'not an archive')
+			expect(response.status).toBe(415)
+
+			// build dir is left untouched
+			const buildDir = path.join(testEnv.GAME_BUILDS_DIR, GAME, ENV, VERSION)
+			expect(fse.existsSync(path.join(buildDir, 'stale.js'))).toBe(true)
+		})
+	})
+})
@@ -0,0 +1,139 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from '../mocks/env'
+import { mockFsExtra, resetFsExtra } from '../mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the app after the mocks
+import * as fse from 'fs-extra'
+
+// Import the test helpers after the mocks, they import the app
+import { buildFiles, request } from '../helpers/fixtures'
+
+describe('POST /releases/:game/:platform/:buildKey/yank', () => {
+	const GAME = 'test-game'
+	const PLATFORM = 'web'
+	const gameDir = path.join(mockEnv.GAME_BUILDS_DIR, GAME)
+	const releasesDir = path.join(gameDir, 'prod', PLATFORM)
+
+	const build = (version: number) =>
+		buildFiles(version, {
+			'index.html': `<html>${version}</html>`,
+			'common.js': 'console.log("common")',
+			[`game_${version}.js`]: `console.log(${version})`,
+		})
+
+	const yank = (buildKey: string, body?: unknown) =>
+		request('POST', `releases/${GAME}/${PLATFORM}/${buildKey}/yank`, { body, token: 'alice-token' })
+
+	const readReleases = () => fse.readJsonSync(path.join(releasesDir, 'releases.json'))
+
+	beforeEach(async () => {
+		resetFsExtra()
+
+		vol.fromNestedJSON({ [path.join(gameDir, 'master')]: { '1': build(1), '2': build(2) } }, '/')
+
+		await request('GET', `publish/${GAME}/${PLATFORM}/master-1`, { token: 'alice-token' })
+		await request('GET', `publish/${GAME}/${PLATFORM}/master-2`, { token: 'alice-token' })
+	})
+
+	afterEach(() => {
+		resetFsExtra()
+		vi.clearAllMocks()
+	})
+
+	it('should remove the release and the files used only by it', async () => {
+		const response = await yank('master-1', { reason: 'crashes on startup' })
+
+		expect(response.status).toBe(200)
+		expect(await response.json()).toEqual({
+			channel: 'prod',
+			yanked: {
+				key: 'master-1',
+				releasedAt: expect.any(String),
+				reason: 'crashes on startup',
+				yankedAt: expect.any(String),
+				yankedBy: 'alice',
+			},
+			removedFiles: ['files_master-1.json', 'game_1.js', 'index_master-1.html'],
+		})
+
+		const releases = readReleases()
+		expect(releases.builds.map((item: { key: string }) => item.key)).toEqual(['master-2'])
+		expect(releases.yanked).toEqual([expect.objectContaining({ key: 'master-1' })])
+
+		expect(fse.existsSync(path.join(releasesDir, 'game_1.js'))).toBe(false)
+		expect(fse.existsSync(path.join(releasesDir, 'common.js'))).toBe(true)
+		expect(fse.existsSync(path.join(releasesDir, 'game_2.js'))).toBe(true)
+		expect(fse.readFileSync(path.join(releasesDir, 'index.html'), 'utf-8')).toBe('<html>2</html>')
+
+		const historyResponse = await request('GET', `releases/${GAME}/${PLATFORM}/history`, { token: 'alice-token' })
+		expect((await historyResponse.json()).entries[0]).toMatchObject({
+			type: 'yank',
+			buildKey: 'master-1',
+			identity: 'alice',
+		})
+	})
+
+	it('should refuse to publish the yanked build again unless forced', async () => {
+		await yank('master-1')
+
+		const publishResponse = await request('GET', `publish/${GAME}/${PLATFORM}/master-1`, { token: 'alice-token' })
+		expect(publishResponse.status).toBe(400)
+		expect((await publishResponse.json()).message).toContain('was yanked')
+
+		const forcedResponse = await request('GET', `publish/${GAME}/${PLATFORM}/master-1?force=true`, {
+			token: 'alice-token',
+		})
+		expect(forcedResponse.status).toBe(200)
+
+		const releases = readReleases()
+		expect(releases.current).toBe('master-1')
+		expect(releases.yanked).toBeUndefined()
+	})
+
+	it('should require a rollback target to yank the current release', async () => {
+		const response = await yank('master-2')
+
+		expect(response.status).toBe(400)
+		expect(await response.json()).toMatchObject({ previous: 'master-1' })
+		expect(readReleases().current).toBe('master-2')
+
+		const rollbackResponse = await yank('master-2', { rollbackTo: 'master-1' })
+
+		expect(rollbackResponse.status).toBe(200)
+		const data = await rollbackResponse.json()
+		expect(data.rolledBackTo.key).toBe('master-1')
+		expect(data.removedFiles).toEqual(['files_master-2.json', 'game_2.js', 'index_master-2.html'])
+
+		const releases = readReleases()
+		expect(releases.current).toBe('master-1')
+		expect(releases.builds.map((item: { key: string }) => item.key)).toEqual(['master-1'])
+		expect(fse.readFileSync(path.join(releasesDir, 'index.html'), 'utf-8')).toBe('<html>1</html>')
+	})
+
+	it('should reject invalid yank requests', async () => {
+		expect((await yank('master-3')).status).toBe(404)
+		expect((await yank('master-2', { rollbackTo: 'master-3' })).status).toBe(404)
+		expect((await yank('master-2', { rollbackTo: 'master-2' })).status).toBe(404)
+		expect((await yank('master-1', { rollbackTo: 'master-2' })).status).toBe(400)
+
+		await request('POST', `releases/${GAME}/${PLATFORM}/master-1/pin`, {
+			body: { reason: 'certification' },
+			token: 'alice-token',
+		})
+		const pinnedResponse = await yank('master-1')
+		expect(pinnedResponse.status).toBe(400)
+		expect((await pinnedResponse.json()).message).toContain('is pinned')
+
+		expect(readReleases().builds).toHaveLength(2)
+	})
+})
@@ -0,0 +1,44 @@
+import type { BuildInfo } from '../../src/builds/build-info'
+import app from '../../src/index'
+
+/**
+ * Files of a build directory (for `vol.fromNestedJSON`): `build_info.json` of the `master` build and the given files
+ */
+export function buildFiles(
+	version: number,
+	files: Record<string, string> = { 'index.html': `<html>${version}</html>` },
+	buildInfo: Partial<BuildInfo> = {},
+): Record<string, string> {
+	return {
+		'build_info.json': JSON.stringify({
+			version,
+			builtAt: Date.now(),
+			builtAtReadable: '2024-03-20 12:00:00',
+			gitCommitHash: `commit${version}`,
+			gitBranch: 'master',
+			...buildInfo,
+		}),
+		...files,
+	}
+}
+
+/**
+ * Sends a request with a JSON body to the app
+ * @param options.token - bearer token of the identity the request is sent by
+ */
+export function request(
+	method: string,
+	pathname: string,
+	options: { body?: unknown; token?: string } = {},
+): Promise<Response> {
+	return app.fetch(
+		new Request(`http://localhost/${pathname}`, {
+			method,
+			body: options.body === undefined ? undefined : JSON.stringify(options.body),
+			headers: {
+				'Content-Type': 'application/json',
+				...(options.token && { Authorization: `Bearer ${options.token}` }),
+			},
+		}),
+	)
+}
@@ -0,0 +1,120 @@
+import path from 'path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from './mocks/env'
+import { mockFsExtra, resetFsExtra } from './mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the mocked module after setting up the mock
+import * as fse from 'fs-extra'
+import { acquireLock, releaseLock, withLock } from '../src/locks/locks'
+import { toReadableDateString } from '../src/utils/date/readable-date-string'
+
+describe('Locks', () => {
+	const KEY = 'test-game/develop'
+	const lockPath = path.join(mockEnv.GAME_BUILDS_DIR, '.release-o-matic', 'locks', `${encodeURIComponent(KEY)}.lock`)
+
+	const writeLockfile = (holder: Record<string, unknown>) => {
+		fse.outputJsonSync(lockPath, {
+			key: KEY,
+			token: 'other-token',
+			operation: 'GET /postDeploy/test-game/develop/1',
+			acquiredAt: toReadableDateString(Date.now(), 'ms'),
+			hostname: 'other-host',
+			pid: 1,
+			...holder,
+		})
+	}
+
+	beforeEach(() => {
+		resetFsExtra()
+	})
+
+	it('should fail with 423 and holder details if the lock is busy', async () => {
+		const lock = await acquireLock(KEY, 'GET /postDeploy/test-game/develop/1')
+
+		await expect(acquireLock(KEY, 'GET /postDeploy/test-game/develop/2')).rejects.toMatchObject({
+			status: 423,
+			details: { lock: { key: KEY, operation: 'GET /postDeploy/test-game/develop/1' } },
+		})
+
+		releaseLock(lock)
+
+		expect(fse.existsSync(lockPath)).toBe(false)
+	})
+
+	it('should wait for the lock to be released', async () => {
+		const lock = await acquireLock(KEY, 'first')
+		setTimeout(() => releaseLock(lock), 300)
+
+		const result = await withLock(KEY, 'second', { waitMs: 2000 }, () => 'done')
+
+		expect(result).toBe('done')
+	})
+
+	it('should fail after the wait timeout', async () => {
+		const lock = await acquireLock(KEY, 'first')
+
+		await expect(acquireLock(KEY, 'second', { waitMs: 300 })).rejects.toMatchObject({ status: 423 })
+
+		releaseLock(lock)
+	})
+
+	it('should respect lockfiles of other server instances', async () => {
+		writeLockfile({})
+
+		await expect(acquireLock(KEY, 'GET /postDeploy/test-game/develop/2')).rejects.toMatchObject({
+			status: 423,
+			details: { lock: { hostname: 'other-host' } },
+		})
+	})
+
+	it('should break stale lockfiles', async () => {
+		writeLockfile({ acquiredAt: toReadableDateString(Date.now() - 60 * 60 * 1000, 'ms') })
+
+		const lock = await acquireLock(KEY, 'GET /postDeploy/test-game/develop/2')
+
+		expect(fse.readJsonSync(lockPath)).toMatchObject({ token: lock.token })
+
+		releaseLock(lock)
+	})
+
+	it('should not break a stale lockfile another instance is breaking', async () => {
+		writeLockfile({ acquiredAt: toReadableDateString(Date.now() - 60 * 60 * 1000, 'ms') })
+		fse.writeFileSync(`${lockPath}.break`, '')
+
+		await expect(acquireLock(KEY, 'GET /postDeploy/test-game/develop/2')).rejects.toMatchObject({ status: 423 })
+
+		expect(fse.readJsonSync(lockPath)).toMatchObject({ token: 'other-token' })
+	})
+
+	it('should remove the break marker left by a dead instance', async () => {
+		writeLockfile({ acquiredAt: toReadableDateString(Date.now() - 60 * 60 * 1000, 'ms') })
+		fse.writeFileSync(`${lockPath}.break`, '')
+		const markerTime = new Date(Date.now() - 60 * 1000)
+		fse.utimesSync(`${lockPath}.break`, markerTime, markerTime)
+
+		const lock = await acquireLock(KEY, 'GET /postDeploy/test-game/develop/2', { waitMs: 1000 })
+
+		expect(fse.readJsonSync(lockPath)).toMatchObject({ token: lock.token })
+		expect(fse.existsSync(`${lockPath}.break`)).toBe(false)
+
+		releaseLock(lock)
+	})
+
+	it('should release the lock if the operation fails', async () => {
+		await expect(
+			withLock(KEY, 'failing', {}, () => {
+				throw new Error('failed')
+			}),
+		).rejects.toThrow('failed')
+
+		expect(fse.existsSync(lockPath)).toBe(false)
+	})
+})
@@ -1,10 +1,15 @@
 export const mockEnv = {
 	BEARER_TOKEN: 'test-token',
+	AUTH_TOKENS: 'ci:ci-token,alice:alice-token',
+	ADMIN_IDENTITIES: 'alice',
 	WEB_SERVER_DIR: '/test',
 	GAME_BUILDS_DIR: '/test',
 	AUTH_REQUIRED: false,
+	UPLOAD_SESSION_TTL_HOURS: 24,
+	LOCK_STALE_MINUTES: 30,
+	PENDING_DEPLOY_TTL_HOURS: 24,
 }
 
 export function getMockEnv() {
 	return mockEnv
-} 
\ No newline at end of file
+}
@@ -42,9 +42,9 @@ export function mockFsExtra() {
 		rmSync: vi.fn((path, options) => {
 			try {
 				if (options?.recursive) {
-					vol.rmdirSync(path, { recursive: true })
+					vol.rmdirSync(resolveParent(path), { recursive: true })
 				} else {
-					vol.unlinkSync(path)
+					vol.unlinkSync(resolveParent(path))
 				}
 			} catch (error) {
 				// If force option is true, ignore errors for non-existent files
@@ -54,13 +54,13 @@ export function mockFsExtra() {
 			}
 		}),
 		symlinkSync: vi.fn((target, path) => {
-			vol.symlinkSync(target, path)
+			vol.symlinkSync(target, resolveParent(path))
 		}),
 		utimesSync: vi.fn((path, atime, mtime) => {
 			vol.utimesSync(path, atime, mtime)
 		}),
 		statSync: vi.fn((path) => {
-			const stats = vol.lstatSync(path)
+			const stats = vol.lstatSync(resolveParent(path))
 			return {
 				...stats,
 				isDirectory: () => stats.isDirectory(),
@@ -69,29 +69,87 @@ export function mockFsExtra() {
 				mtime: stats.mtime || new Date(),
 			}
 		}),
+		lstatSync: vi.fn((path) => {
+			return vol.lstatSync(resolveParent(path))
+		}),
+		linkSync: vi.fn((existingPath, newPath) => {
+			vol.linkSync(resolveParent(existingPath), resolveParent(newPath))
+		}),
+		readFileSync: vi.fn((path, options) => {
+			return vol.readFileSync(path, options)
+		}),
+		openSync: vi.fn((path, flags) => {
+			return vol.openSync(path, flags)
+		}),
+		readSync: vi.fn((fd, buffer, offset, length, position) => {
+			return vol.readSync(fd, buffer, offset, length, position)
+		}),
+		writeSync: vi.fn((fd, data) => {
+			return vol.writeSync(fd, data)
+		}),
+		closeSync: vi.fn((fd) => {
+			vol.closeSync(fd)
+		}),
 		renameSync: vi.fn((oldPath, newPath) => {
-			const content = vol.readFileSync(oldPath)
-			vol.writeFileSync(newPath, content)
-			vol.unlinkSync(oldPath)
+			oldPath = resolveParent(oldPath)
+			newPath = resolveParent(newPath)
+
+			// memfs loses symlinks on rename, so they are recreated instead
+			if (vol.lstatSync(oldPath).isSymbolicLink()) {
+				const target = vol.readlinkSync(oldPath)
+				vol.unlinkSync(oldPath)
+				if (vol.existsSync(newPath) || isSymlink(newPath)) {
+					vol.unlinkSync(newPath)
+				}
+				vol.symlinkSync(target, newPath)
+				return
+			}
+
+			vol.renameSync(oldPath, newPath)
 		}),
 		outputJsonSync: vi.fn((file, data, options = {}) => {
 			const content = JSON.stringify(data, null, options.spaces || 2)
 			vol.mkdirSync(path.dirname(file), { recursive: true })
 			vol.writeFileSync(file, content)
 		}),
+		appendFileSync: vi.fn((file, data) => {
+			vol.appendFileSync(file, data)
+		}),
 		writeFileSync: vi.fn((file, data, options = {}) => {
 			vol.mkdirSync(path.dirname(file), { recursive: true })
-			vol.writeFileSync(file, data, options)
+			vol.writeFileSync(resolveParent(file), data, options)
 		}),
 		readlink: vi.fn((path) => {
-			return Promise.resolve(vol.readlinkSync(path))
+			return Promise.resolve(vol.readlinkSync(resolveParent(path)))
 		}),
 		readlinkSync: vi.fn((path) => {
-			return vol.readlinkSync(path)
+			return vol.readlinkSync(resolveParent(path))
+		}),
+		realpathSync: vi.fn((path) => {
+			return vol.realpathSync(path)
 		}),
 	}
 }
 
+/**
+ * memfs doesn't follow symlinked parent dirs in most operations (real fs does), so they are resolved beforehand
+ */
+function resolveParent(filepath: string): string {
+	try {
+		return path.join(vol.realpathSync(path.dirname(filepath)), path.basename(filepath))
+	} catch {
+		return filepath
+	}
+}
+
+function isSymlink(filepath: string): boolean {
+	try {
+		return vol.lstatSync(filepath).isSymbolicLink()
+	} catch {
+		return false
+	}
+}
+
 // Helper function to reset the virtual filesystem and mocks
 export function resetFsExtra() {
 	vol.reset()
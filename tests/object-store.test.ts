@@ -0,0 +1,88 @@
+import { vol } from 'memfs'
+import path from 'path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEnv } from './mocks/env'
+import { mockFsExtra, resetFsExtra } from './mocks/fs-extra'
+
+// Mock file system operations
+vi.mock('fs-extra', () => mockFsExtra())
+
+// Mock environment variables
+vi.mock('../src/env', () => ({
+	env: mockEnv,
+}))
+
+// Import the mocked module after setting up the mock
+import * as fse from 'fs-extra'
+import { collectGarbage, getObjectsDir, ingestDir, linkDir } from '../src/store/object-store'
+
+describe('Object store', () => {
+	const envDir = path.join(mockEnv.GAME_BUILDS_DIR, 'test-game', 'develop')
+	const build1Dir = path.join(envDir, '1')
+	const build2Dir = path.join(envDir, '2')
+
+	const countObjects = () =>
+		vol.readdirSync(getObjectsDir(), { recursive: true }).filter((item) => /[0-9a-f]{64}$/.test(String(item)))
+			.length
+
+	beforeEach(() => {
+		resetFsExtra()
+
+		vol.fromNestedJSON(
+			{
+				[build1Dir]: {
+					'index.html': '<html>1</html>',
+					'assets': { 'atlas.png': 'atlas' },
+				},
+				[build2Dir]: {
+					'index.html': '<html>2</html>',
+					'assets': { 'atlas.png': 'atlas' },
+				},
+			},
+			'/',
+		)
+	})
+
+	it('should store identical files once', () => {
+		expect(ingestDir(build1Dir)).toEqual({ ingested: 2, deduplicated: 0 })
+		expect(ingestDir(build2Dir)).toEqual({ ingested: 1, deduplicated: 1 })
+
+		expect(countObjects()).toBe(3)
+
+		const atlas1 = fse.lstatSync(path.join(build1Dir, 'assets/atlas.png'))
+		const atlas2 = fse.lstatSync(path.join(build2Dir, 'assets/atlas.png'))
+		expect(atlas1.ino).toBe(atlas2.ino)
+		expect(atlas1.nlink).toBe(3)
+	})
+
+	it('should skip files that are already in the store', () => {
+		ingestDir(build1Dir)
+
+		expect(ingestDir(build1Dir)).toEqual({ ingested: 0, deduplicated: 0 })
+	})
+
+	it('should materialize directory via hardlinks', () => {
+		ingestDir(build1Dir)
+
+		const build3Dir = path.join(envDir, '3')
+		linkDir(build1Dir, build3Dir)
+
+		expect(fse.readFileSync(path.join(build3Dir, 'assets/atlas.png'), 'utf-8')).toBe('atlas')
+		expect(fse.lstatSync(path.join(build3Dir, 'index.html')).ino).toBe(
+			fse.lstatSync(path.join(build1Dir, 'index.html')).ino,
+		)
+	})
+
+	it('should remove only unreferenced objects', () => {
+		ingestDir(build1Dir)
+		ingestDir(build2Dir)
+
+		// memfs doesn't decrement link count on recursive removal, so files are removed one by one
+		fse.rmSync(path.join(build1Dir, 'index.html'))
+		fse.rmSync(path.join(build1Dir, 'assets/atlas.png'))
+
+		expect(collectGarbage()).toMatchObject({ removedObjects: 1 })
+		expect(countObjects()).toBe(2)
+		expect(fse.readFileSync(path.join(build2Dir, 'assets/atlas.png'), 'utf-8')).toBe('atlas')
+	})
+})